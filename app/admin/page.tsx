@@ -0,0 +1,800 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { UIMessage } from "ai";
+
+type VendingStateType = "IDLE" | "CHATTING" | "PAYMENT_PENDING" | "DISPENSING" | "DONE";
+
+interface Snapshot {
+  machineId: string;
+  state: VendingStateType;
+  sessionId: string;
+  lockedByName: string | null;
+  updatedAt: number;
+  chatExpiresAt: number | null;
+  dispensingExpiresAt: number | null;
+  paymentInfo: {
+    preferenceId: string | null;
+    amount: number | null;
+    quantity: number | null;
+    description: string | null;
+    sku: string | null;
+    paymentExpiresAt: number | null;
+  };
+  waitlist: { length: number; reservedFor: string | null };
+}
+
+interface InterruptedSession {
+  sessionId: string;
+  lockedByName: string | null;
+  state: VendingStateType;
+  reason: string;
+  orderId: string | null;
+  amount: number | null;
+  description: string | null;
+  detectedAt: number;
+}
+
+interface MachineStatus {
+  id: string;
+  name: string;
+  snapshot: Snapshot;
+  dispenser: string;
+  interruptedSessions: InterruptedSession[];
+}
+
+interface StockLevel {
+  sku?: string;
+  description: string;
+  amount: number;
+  avg_unit_price: number;
+  reserved: number;
+  expired: number;
+  available: number;
+}
+
+interface PriceRule {
+  listPrice?: number;
+  minMargin?: number;
+  maxDiscount?: number;
+}
+
+interface PriceQuote {
+  sku: string;
+  listPrice: number | null;
+  unitCost: number | null;
+  minUnitPrice: number | null;
+  nearExpiry: boolean;
+}
+
+interface SessionSummary {
+  sessionId: string;
+  customerName: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  endReason: string | null;
+  paidAmount: number;
+  paidUnits: number;
+  dispensedItems: number;
+  faults: number;
+  refundedUnits: number;
+  refundedAmount: number;
+}
+
+interface Refund {
+  id: string;
+  orderId: string;
+  sessionId: string;
+  amount: number;
+  units: number;
+  reason: string;
+  status: "pending" | "completed" | "failed";
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  createdAt: number;
+}
+
+interface OrphanPayment {
+  id: string;
+  kind: "late" | "mismatch" | "unmatched";
+  reason: string;
+  orderId: string | null;
+  paymentId: string | null;
+  externalReference: string | null;
+  amount: number | null;
+  machineId: string | null;
+  status: "open" | "refunded" | "dismissed";
+  receivedAt: number;
+}
+
+interface SessionFailure {
+  kind: string;
+  at: number;
+  sessionId: string | null;
+  customerName: string | null;
+  orderId: string | null;
+  amount: number | null;
+  slot: string | null;
+  reason: string | null;
+}
+
+// Routes answer { ok, message? } plus whatever T they return
+type Api = <T = object>(
+  path: string,
+  init?: { method?: string; body?: unknown }
+) => Promise<{ ok: boolean; status: number; data: T & { message?: string } }>;
+
+const OPERATOR_TOKEN_KEY = "vending:operatorToken";
+
+function formatTime(ms: number | null): string {
+  return ms ? new Date(ms).toLocaleString() : "—";
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border border-white/30 rounded p-4 flex flex-col gap-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+const inputClass = "border border-white/40 rounded px-2 py-1 bg-transparent text-white w-24";
+const buttonClass = "border border-white rounded px-3 py-1 text-white disabled:opacity-50";
+
+function MachinePanel({ machine, api, onChanged }: { machine: MachineStatus; api: Api; onChanged: () => void }) {
+  const { snapshot: snap } = machine;
+  const [message, setMessage] = useState("");
+
+  async function onReset() {
+    if (!window.confirm(`End session ${snap.sessionId} on ${machine.name} and return it to IDLE?`)) return;
+    const res = await api("/api/vending/reset", { method: "POST", body: { machineId: machine.id, sessionId: snap.sessionId } });
+    setMessage(res.ok ? "Machine reset" : res.data.message || "Reset failed");
+    onChanged();
+  }
+
+  async function onClearFault() {
+    if (!window.confirm(`Only clear the fault once the jam in ${machine.name} has been removed. Put the dispenser back in service?`)) return;
+    const res = await api("/api/vending/dispenser", { method: "POST", body: { machineId: machine.id } });
+    setMessage(res.ok ? "Dispenser back in service" : res.data.message || "Clearing the fault failed");
+    onChanged();
+  }
+
+  async function onDismiss(sessionId: string) {
+    const res = await api("/api/vending/machines", { method: "POST", body: { machineId: machine.id, sessionId } });
+    setMessage(res.ok ? "Interrupted session dismissed" : res.data.message || "Dismiss failed");
+    onChanged();
+  }
+
+  return (
+    <Section title={`${machine.name} (${machine.id})`}>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        <div>State</div>
+        <div className="font-bold">{snap.state}</div>
+        <div>Dispenser</div>
+        <div className={machine.dispenser === "READY" ? "" : "text-red-500 font-bold"}>{machine.dispenser}</div>
+        <div>Session</div>
+        <div className="font-mono">{snap.sessionId}</div>
+        <div>Customer</div>
+        <div>{snap.lockedByName ?? "—"}</div>
+        <div>Last change</div>
+        <div>{formatTime(snap.updatedAt)}</div>
+        {snap.state === "PAYMENT_PENDING" && (
+          <>
+            <div>Order</div>
+            <div className="font-mono">{snap.paymentInfo.preferenceId}</div>
+            <div>Amount</div>
+            <div>
+              ${snap.paymentInfo.amount} for {snap.paymentInfo.quantity} × {snap.paymentInfo.sku ?? snap.paymentInfo.description}
+            </div>
+            <div>Payment expires</div>
+            <div>{formatTime(snap.paymentInfo.paymentExpiresAt)}</div>
+          </>
+        )}
+        <div>Waitlist</div>
+        <div>
+          {snap.waitlist.length} waiting{snap.waitlist.reservedFor ? `, reserved for ${snap.waitlist.reservedFor}` : ""}
+        </div>
+      </div>
+      <div className="flex gap-3 items-center">
+        <button className={buttonClass} onClick={onReset} disabled={snap.state === "IDLE"}>
+          Force reset
+        </button>
+        {machine.dispenser === "FAULT" && (
+          <button className={buttonClass} onClick={onClearFault}>
+            Clear dispenser fault
+          </button>
+        )}
+        {message && <span className="text-sm text-gray-300">{message}</span>}
+      </div>
+      {machine.interruptedSessions.length > 0 && (
+        <div className="text-sm">
+          <div className="font-semibold text-red-500">Interrupted by a restart</div>
+          {machine.interruptedSessions.map((s) => (
+            <div key={s.sessionId} className="flex gap-3 items-center">
+              <span>
+                {formatTime(s.detectedAt)} · {s.lockedByName ?? "Guest"} · {s.state} · {s.reason}
+                {s.orderId && ` · order ${s.orderId}`}
+                {s.amount !== null && ` · $${s.amount}`}
+              </span>
+              <button className={buttonClass} onClick={() => void onDismiss(s.sessionId)}>Dismiss</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Section>
+  );
+}
+
+function InventoryRow({ machineId, slot, level, api, onSaved }: {
+  machineId: string;
+  slot: string;
+  level: StockLevel;
+  api: Api;
+  onSaved: (message: string) => void;
+}) {
+  const [amount, setAmount] = useState(String(level.amount));
+  const [cost, setCost] = useState(String(level.avg_unit_price));
+  const [restock, setRestock] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  useEffect(() => {
+    setAmount(String(level.amount));
+    setCost(String(level.avg_unit_price));
+  }, [level.amount, level.avg_unit_price]);
+
+  async function onSave() {
+    const res = await api("/api/vending/inventory", {
+      method: "PUT",
+      body: { machineId, slot, amount: Number(amount), avg_unit_price: Number(cost), reason: "Edited from the admin dashboard" },
+    });
+    onSaved(res.ok ? `Slot ${slot} saved` : res.data.message || `Slot ${slot} not saved`);
+  }
+
+  async function onRestock() {
+    const res = await api("/api/vending/inventory/restock", {
+      method: "POST",
+      body: { machineId, slot, quantity: Number(restock), unitCost: Number(cost), expiresAt: expiresAt || null },
+    });
+    if (res.ok) {
+      setRestock("");
+      setExpiresAt("");
+    }
+    onSaved(res.ok ? `Slot ${slot} restocked` : res.data.message || `Slot ${slot} not restocked`);
+  }
+
+  return (
+    <tr className="border-t border-white/10">
+      <td className="py-1 font-mono">{slot}</td>
+      <td>{level.sku ?? "—"}</td>
+      <td>{level.description}</td>
+      <td>{level.available}</td>
+      <td>{level.reserved}</td>
+      <td className={level.expired > 0 ? "text-red-500" : ""}>{level.expired}</td>
+      <td>
+        <input className={inputClass} value={amount} onChange={(e) => setAmount(e.target.value)} aria-label={`Amount in ${slot}`} />
+      </td>
+      <td>
+        <input className={inputClass} value={cost} onChange={(e) => setCost(e.target.value)} aria-label={`Unit cost in ${slot}`} />
+      </td>
+      <td>
+        <button className={buttonClass} onClick={onSave}>Save</button>
+      </td>
+      <td className="flex gap-1 py-1">
+        <input className={inputClass} placeholder="units" value={restock} onChange={(e) => setRestock(e.target.value)} aria-label={`Units to load into ${slot}`} />
+        <input className={`${inputClass} w-36`} type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} aria-label={`Best before for ${slot}`} />
+        <button className={buttonClass} onClick={onRestock} disabled={!restock}>Load</button>
+      </td>
+    </tr>
+  );
+}
+
+function InventoryPanel({ machineId, api }: { machineId: string; api: Api }) {
+  const [levels, setLevels] = useState<Record<string, StockLevel>>({});
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await api<Record<string, StockLevel>>(`/api/vending/inventory?machineId=${encodeURIComponent(machineId)}`);
+    if (res.ok) setLevels(res.data);
+  }, [api, machineId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <Section title="Inventory">
+      <table className="text-sm text-left">
+        <thead className="text-gray-400">
+          <tr>
+            <th>Slot</th>
+            <th>SKU</th>
+            <th>Description</th>
+            <th>Available</th>
+            <th>Reserved</th>
+            <th>Expired</th>
+            <th>Amount</th>
+            <th>Unit cost</th>
+            <th />
+            <th>Restock</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(levels).map(([slot, level]) => (
+            <InventoryRow
+              key={slot}
+              machineId={machineId}
+              slot={slot}
+              level={level}
+              api={api}
+              onSaved={(text) => {
+                setMessage(text);
+                void load();
+              }}
+            />
+          ))}
+        </tbody>
+      </table>
+      {message && <div className="text-sm text-gray-300">{message}</div>}
+    </Section>
+  );
+}
+
+function PriceRow({ quote, rule, api, onSaved }: {
+  quote: PriceQuote;
+  rule: PriceRule | undefined;
+  api: Api;
+  onSaved: (message: string) => void;
+}) {
+  const [listPrice, setListPrice] = useState(rule?.listPrice?.toString() ?? "");
+  const [maxDiscount, setMaxDiscount] = useState(rule?.maxDiscount?.toString() ?? "");
+  const [minMargin, setMinMargin] = useState(rule?.minMargin?.toString() ?? "");
+
+  async function onSave() {
+    // Blank fields fall back to the category or default rule
+    const next: PriceRule = {
+      ...rule,
+      listPrice: listPrice ? Number(listPrice) : undefined,
+      maxDiscount: maxDiscount ? Number(maxDiscount) : undefined,
+      minMargin: minMargin ? Number(minMargin) : undefined,
+    };
+    const res = await api("/api/vending/pricing", { method: "PUT", body: { sku: quote.sku, rule: next } });
+    onSaved(res.ok ? `${quote.sku} saved` : res.data.message || `${quote.sku} not saved`);
+  }
+
+  return (
+    <tr className="border-t border-white/10">
+      <td className="py-1 font-mono">{quote.sku}</td>
+      <td>{quote.unitCost ?? "—"}</td>
+      <td>
+        {quote.minUnitPrice ?? "—"}
+        {quote.nearExpiry && <span className="text-yellow-400"> near expiry</span>}
+      </td>
+      <td>
+        <input className={inputClass} value={listPrice} onChange={(e) => setListPrice(e.target.value)} aria-label={`List price of ${quote.sku}`} />
+      </td>
+      <td>
+        <input className={inputClass} placeholder="inherit" value={maxDiscount} onChange={(e) => setMaxDiscount(e.target.value)} aria-label={`Max discount of ${quote.sku}`} />
+      </td>
+      <td>
+        <input className={inputClass} placeholder="inherit" value={minMargin} onChange={(e) => setMinMargin(e.target.value)} aria-label={`Min margin of ${quote.sku}`} />
+      </td>
+      <td>
+        <button className={buttonClass} onClick={onSave}>Save</button>
+      </td>
+    </tr>
+  );
+}
+
+function PricingPanel({ machineId, api }: { machineId: string; api: Api }) {
+  const [quotes, setQuotes] = useState<PriceQuote[]>([]);
+  const [rules, setRules] = useState<Record<string, PriceRule>>({});
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await api<{ quotes: PriceQuote[]; policy: { products: Record<string, PriceRule> } }>(
+      `/api/vending/pricing?machineId=${encodeURIComponent(machineId)}`
+    );
+    if (!res.ok) return;
+    setQuotes(res.data.quotes);
+    setRules(res.data.policy.products);
+  }, [api, machineId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <Section title="Prices">
+      <div className="text-xs text-gray-400">Discounts and margins are fractions: 0.15 is 15%.</div>
+      <table className="text-sm text-left">
+        <thead className="text-gray-400">
+          <tr>
+            <th>SKU</th>
+            <th>Unit cost</th>
+            <th>Min unit price</th>
+            <th>List price</th>
+            <th>Max discount</th>
+            <th>Min margin</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {quotes.map((quote) => (
+            <PriceRow
+              key={quote.sku}
+              quote={quote}
+              rule={rules[quote.sku]}
+              api={api}
+              onSaved={(text) => {
+                setMessage(text);
+                void load();
+              }}
+            />
+          ))}
+        </tbody>
+      </table>
+      {message && <div className="text-sm text-gray-300">{message}</div>}
+    </Section>
+  );
+}
+
+function Transcript({ messages }: { messages: UIMessage[] }) {
+  if (messages.length === 0) return <div className="text-sm text-gray-400">Empty transcript.</div>;
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {messages.map((m) => (
+        <div key={m.id}>
+          <span className="font-semibold">{m.role}: </span>
+          {m.parts.map((part, index) => {
+            if (part.type === "text") return <span key={index}>{part.text}</span>;
+            if (part.type.startsWith("tool-")) {
+              return (
+                <span key={index} className="text-gray-400">
+                  {" "}[{part.type.slice("tool-".length)}]
+                </span>
+              );
+            }
+            return null;
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SessionsPanel({ machineId, api }: { machineId: string; api: Api }) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [failures, setFailures] = useState<SessionFailure[]>([]);
+  const [selected, setSelected] = useState("");
+  const [transcript, setTranscript] = useState<UIMessage[] | null>(null);
+  const [transcriptError, setTranscriptError] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await api<{ sessions: SessionSummary[]; failures: SessionFailure[] }>(
+      `/api/vending/sessions?machineId=${encodeURIComponent(machineId)}`
+    );
+    if (!res.ok) return;
+    setSessions(res.data.sessions);
+    setFailures(res.data.failures);
+  }, [api, machineId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onSelect(sessionId: string) {
+    setSelected(sessionId);
+    setTranscript(null);
+    setTranscriptError("");
+    const query = `machineId=${encodeURIComponent(machineId)}&sessionId=${encodeURIComponent(sessionId)}`;
+    const res = await api<{ transcript: { messages: UIMessage[] } }>(`/api/vending/transcripts?${query}`);
+    if (res.ok) setTranscript(res.data.transcript.messages);
+    else setTranscriptError(res.data.message || "Could not load the transcript");
+  }
+
+  return (
+    <>
+      <Section title="Payment and dispense failures">
+        <button className={`${buttonClass} self-start`} onClick={() => void load()}>Refresh</button>
+        {failures.length === 0 && <div className="text-sm text-gray-400">No failures recorded.</div>}
+        <table className="text-sm text-left">
+          <tbody>
+            {failures.map((f, index) => (
+              <tr key={`${f.kind}-${f.at}-${index}`} className="border-t border-white/10">
+                <td className="py-1 pr-3">{formatTime(f.at)}</td>
+                <td className="pr-3 text-red-500">{f.kind}</td>
+                <td className="pr-3">{f.customerName ?? "—"}</td>
+                <td className="pr-3">{f.slot ? `slot ${f.slot}` : f.orderId ? `order ${f.orderId}` : ""}</td>
+                <td className="pr-3">{f.amount !== null ? `$${f.amount}` : ""}</td>
+                <td>{f.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+      <Section title="Recent sessions">
+        <table className="text-sm text-left">
+          <thead className="text-gray-400">
+            <tr>
+              <th>Started</th>
+              <th>Customer</th>
+              <th>Ended</th>
+              <th>Paid</th>
+              <th>Dispensed</th>
+              <th>Faults</th>
+              <th>Refunded</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.map((s) => (
+              <tr key={s.sessionId} className={`border-t border-white/10 ${s.sessionId === selected ? "bg-white/10" : ""}`}>
+                <td className="py-1 pr-3">{formatTime(s.startedAt)}</td>
+                <td className="pr-3">{s.customerName ?? "—"}</td>
+                <td className="pr-3">{s.endedAt ? `${formatTime(s.endedAt)} (${s.endReason})` : "in progress"}</td>
+                <td className="pr-3">${s.paidAmount} for {s.paidUnits}</td>
+                <td className={s.dispensedItems + s.refundedUnits < s.paidUnits ? "pr-3 text-red-500" : "pr-3"}>{s.dispensedItems}</td>
+                <td className="pr-3">{s.faults}</td>
+                <td className="pr-3">{s.refundedUnits > 0 ? `$${s.refundedAmount} for ${s.refundedUnits}` : "—"}</td>
+                <td>
+                  <button className={buttonClass} onClick={() => void onSelect(s.sessionId)}>Transcript</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {selected && (
+          <div className="border-t border-white/30 pt-3">
+            <div className="text-sm text-gray-400 mb-2 font-mono">{selected}</div>
+            {transcriptError && <div className="text-sm text-red-600">{transcriptError}</div>}
+            {transcript && <Transcript messages={transcript} />}
+          </div>
+        )}
+      </Section>
+    </>
+  );
+}
+
+function RefundsPanel({ machineId, api }: { machineId: string; api: Api }) {
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await api<{ refunds: Refund[] }>(`/api/vending/refunds?machineId=${encodeURIComponent(machineId)}`);
+    if (res.ok) setRefunds(res.data.refunds);
+  }, [api, machineId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onRetry(refundId: string) {
+    const res = await api("/api/vending/refunds", { method: "POST", body: { refundId } });
+    setMessage(res.ok ? "Retrying refund" : res.data.message || "Retry failed");
+    void load();
+  }
+
+  return (
+    <Section title="Refunds">
+      <button className={`${buttonClass} self-start`} onClick={() => void load()}>Refresh</button>
+      {refunds.length === 0 && <div className="text-sm text-gray-400">No refunds.</div>}
+      <table className="text-sm text-left">
+        <tbody>
+          {refunds.map((r) => (
+            <tr key={r.id} className="border-t border-white/10">
+              <td className="py-1 pr-3">{formatTime(r.createdAt)}</td>
+              <td className={r.status === "failed" ? "pr-3 text-red-500" : "pr-3"}>{r.status}</td>
+              <td className="pr-3">${r.amount} for {r.units}</td>
+              <td className="pr-3 font-mono">{r.orderId}</td>
+              <td className="pr-3">
+                {r.reason}
+                {r.lastError && <span className="text-gray-400"> · {r.attempts} attempt(s), last error: {r.lastError}</span>}
+              </td>
+              <td>
+                {r.status === "failed" && (
+                  <button className={buttonClass} onClick={() => void onRetry(r.id)}>Retry</button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {message && <div className="text-sm text-gray-300">{message}</div>}
+    </Section>
+  );
+}
+
+// Payments no session was credited for, across all machines
+function OrphansPanel({ api }: { api: Api }) {
+  const [orphans, setOrphans] = useState<OrphanPayment[]>([]);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await api<{ orphans: OrphanPayment[] }>("/api/vending/orphans");
+    if (res.ok) setOrphans(res.data.orphans);
+  }, [api]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onResolve(orphanId: string, action: "refund" | "dismiss") {
+    const res = await api("/api/vending/orphans", { method: "POST", body: { orphanId, action } });
+    setMessage(res.ok ? (action === "refund" ? "Refund queued" : "Dismissed") : res.data.message || "Failed");
+    void load();
+  }
+
+  return (
+    <Section title="Orphan payments">
+      <button className={`${buttonClass} self-start`} onClick={() => void load()}>Refresh</button>
+      {orphans.length === 0 && <div className="text-sm text-gray-400">No orphan payments.</div>}
+      <table className="text-sm text-left">
+        <tbody>
+          {orphans.map((o) => (
+            <tr key={o.id} className="border-t border-white/10">
+              <td className="py-1 pr-3">{formatTime(o.receivedAt)}</td>
+              <td className={o.status === "open" ? "pr-3 text-red-500" : "pr-3"}>{o.status}</td>
+              <td className="pr-3">{o.amount !== null ? `$${o.amount}` : "—"}</td>
+              <td className="pr-3">{o.machineId ?? "unknown machine"}</td>
+              <td className="pr-3 font-mono">{o.orderId ?? o.paymentId}</td>
+              <td className="pr-3">
+                {o.kind}: {o.reason}
+              </td>
+              <td className="flex gap-2">
+                {o.status === "open" && (
+                  <>
+                    <button className={buttonClass} onClick={() => void onResolve(o.id, "refund")}>Refund</button>
+                    <button className={buttonClass} onClick={() => void onResolve(o.id, "dismiss")}>Dismiss</button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {message && <div className="text-sm text-gray-300">{message}</div>}
+    </Section>
+  );
+}
+
+export default function AdminPage() {
+  const [token, setToken] = useState("");
+  const [tokenInput, setTokenInput] = useState("");
+  const [error, setError] = useState("");
+  const [machines, setMachines] = useState<MachineStatus[]>([]);
+  const [machineId, setMachineId] = useState("");
+
+  useEffect(() => {
+    setToken(window.sessionStorage.getItem(OPERATOR_TOKEN_KEY) ?? "");
+  }, []);
+
+  const logout = useCallback((message = "") => {
+    window.sessionStorage.removeItem(OPERATOR_TOKEN_KEY);
+    setToken("");
+    setMachines([]);
+    setError(message);
+  }, []);
+
+  // Every admin call is an operator API call; a 401 means the token is wrong
+  // or was rotated, so drop it and ask again.
+  const api = useCallback<Api>(
+    async (path, init = {}) => {
+      const res = await fetch(path, {
+        method: init.method ?? "GET",
+        cache: "no-store",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      });
+      if (res.status === 401) logout("That operator token was not accepted.");
+      const data = await res.json().catch(() => ({}));
+      return { ok: res.ok, status: res.status, data: data as never };
+    },
+    [token, logout]
+  );
+
+  const loadMachines = useCallback(async () => {
+    const res = await api<{ machines: MachineStatus[] }>("/api/vending/machines");
+    if (!res.ok) return;
+    const list = res.data.machines;
+    setMachines(list);
+    setMachineId((current) => current || list[0]?.id || "");
+  }, [api]);
+
+  useEffect(() => {
+    if (token) void loadMachines();
+  }, [token, loadMachines]);
+
+  // Each machine's snapshot stream keeps its panel live. The dispenser status
+  // and interrupted sessions are not in the snapshot, so they are fetched
+  // again whenever a machine changes state.
+  const machineIds = machines.map((m) => m.id).join(",");
+  const lastStates = useRef(new Map<string, VendingStateType>());
+  useEffect(() => {
+    if (!token || !machineIds) return;
+    const sources = machineIds.split(",").map((id) => {
+      const source = new EventSource(`/api/vending/events?machineId=${encodeURIComponent(id)}`);
+      source.addEventListener("snapshot", (e) => {
+        const snapshot = JSON.parse((e as MessageEvent<string>).data) as Snapshot;
+        setMachines((current) => current.map((m) => (m.id === id ? { ...m, snapshot } : m)));
+        const previous = lastStates.current.get(id);
+        lastStates.current.set(id, snapshot.state);
+        if (previous && previous !== snapshot.state) void loadMachines();
+      });
+      return source;
+    });
+    return () => sources.forEach((source) => source.close());
+  }, [token, machineIds, loadMachines]);
+
+  function onLogin() {
+    if (!tokenInput.trim()) return;
+    window.sessionStorage.setItem(OPERATOR_TOKEN_KEY, tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput("");
+    setError("");
+  }
+
+  if (!token) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center p-6">
+        <form
+          className="flex flex-col gap-3 w-full max-w-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onLogin();
+          }}
+        >
+          <div className="text-2xl text-white font-bold">Operator sign-in</div>
+          <input
+            className="border border-white rounded p-3 text-white placeholder-gray-400 bg-transparent focus:outline-none focus:ring-2 focus:ring-white/60"
+            type="password"
+            placeholder="Operator token"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            autoComplete="current-password"
+          />
+          <button type="submit" className="bg-black text-white rounded p-3">Sign in</button>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </form>
+      </div>
+    );
+  }
+
+  const machine = machines.find((m) => m.id === machineId);
+
+  return (
+    <div className="min-h-screen w-full p-6 flex flex-col gap-6 text-white">
+      <div className="flex items-center gap-4">
+        <h1 className="text-2xl font-bold">Vending admin</h1>
+        <select
+          className="border border-white/40 rounded px-2 py-1 bg-black text-white"
+          value={machineId}
+          onChange={(e) => setMachineId(e.target.value)}
+          aria-label="Machine"
+        >
+          {machines.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.name} · {m.snapshot.state}
+            </option>
+          ))}
+        </select>
+        <button className={`${buttonClass} ml-auto`} onClick={() => logout()}>Sign out</button>
+      </div>
+      {!machine && <div className="text-gray-400">Loading…</div>}
+      {machine && (
+        <>
+          <MachinePanel machine={machine} api={api} onChanged={() => void loadMachines()} />
+          <InventoryPanel key={`inventory-${machine.id}`} machineId={machine.id} api={api} />
+          <PricingPanel key={`pricing-${machine.id}`} machineId={machine.id} api={api} />
+          <SessionsPanel key={`sessions-${machine.id}`} machineId={machine.id} api={api} />
+          <RefundsPanel key={`refunds-${machine.id}`} machineId={machine.id} api={api} />
+        </>
+      )}
+      <OrphansPanel api={api} />
+    </div>
+  );
+}
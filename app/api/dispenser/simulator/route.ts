@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getDispenser } from "@/lib/dispenser";
+import { isSimulatedDispenser, parseSimulatorScript } from "@/lib/dispenserSimulator";
+import { resolveMachine } from "@/lib/machines";
+
+// Development only: queues outcomes for a simulated dispenser's next vends,
+// e.g. "jam,ok" or "timeout". Only answers for machines whose dispenser is
+// the simulator.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const { machineId, script } = body as { machineId?: string; script?: string };
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const dispenser = getDispenser(machine.id);
+  if (!isSimulatedDispenser(dispenser)) {
+    return NextResponse.json({ ok: false, message: "The dispenser simulator is disabled for this machine" }, { status: 404 });
+  }
+  const outcomes = parseSimulatorScript(script);
+  if (outcomes.length === 0) {
+    return NextResponse.json(
+      { ok: false, message: "script must list outcomes (ok, jam, timeout), comma-separated" },
+      { status: 400 }
+    );
+  }
+  dispenser.script(...outcomes);
+  return NextResponse.json({ ok: true, queued: outcomes, dispenser: dispenser.status() });
+}
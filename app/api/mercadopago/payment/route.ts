@@ -1,101 +1,65 @@
+import crypto from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import QRCode from "qrcode";
-import { getSnapshot, setPaymentInfo, clearPaymentInfo, transitionToChatting } from "@/lib/vendingState";
-
-const MP_ACCESS_TOKEN = process.env.MP_ACCESS_TOKEN!;
-
-// Datos de la sucursal y POS creados
-const STORE_ID = process.env.MP_STORE_ID!;
-const POS_ID = process.env.MP_POS_ID!;
-
-// Polling function to check payment status (fallback for when webhooks don't work)
-async function startPaymentPolling(orderId: string, sessionId: string) {
-  const maxAttempts = 20; // Poll for 2 minutes (20 * 6 seconds)
-  let attempts = 0;
-  
-  const pollInterval = setInterval(async () => {
-    attempts++;
-    console.log(`Polling payment status for order ${orderId}, attempt ${attempts}`);
-    
-    try {
-      const response = await fetch(`https://api.mercadopago.com/v1/orders/${orderId}`, {
-        headers: { Authorization: `Bearer ${MP_ACCESS_TOKEN}` },
-        cache: "no-store",
-      });
-      
-      if (response.ok) {
-        const order = await response.json();
-        console.log(`Order ${orderId} status:`, order.status);
-        
-        if (order.status === "paid" || order.status === "processed") {
-          console.log(`Payment completed for order ${orderId}, session ${sessionId}`);
-          const snapshot = getSnapshot();
-          
-          if (snapshot.sessionId === sessionId && snapshot.state === "PAYMENT_PENDING") {
-            clearPaymentInfo(sessionId);
-            transitionToChatting(sessionId);
-          }
-          clearInterval(pollInterval);
-        } else if (order.status === "cancelled" || order.status === "expired") {
-          console.log(`Payment cancelled/expired for order ${orderId}, session ${sessionId}`);
-          const snapshot = getSnapshot();
-          
-          if (snapshot.sessionId === sessionId && snapshot.state === "PAYMENT_PENDING") {
-            clearPaymentInfo(sessionId);
-            transitionToChatting(sessionId);
-          }
-          clearInterval(pollInterval);
-        }
-      }
-      
-      if (attempts >= maxAttempts) {
-        console.log(`Polling timeout for order ${orderId}`);
-        clearInterval(pollInterval);
-      }
-    } catch (error) {
-      console.error(`Polling error for order ${orderId}:`, error);
-      if (attempts >= maxAttempts) {
-        clearInterval(pollInterval);
-      }
-    }
-  }, 6000); // Poll every 6 seconds
-}
+import {
+  getSnapshot,
+  setPaymentInfo,
+  verifyController,
+} from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+import { readControllerToken } from "@/lib/controllerToken";
+import { releaseReservation, reserveProduct } from "@/lib/inventory";
+import { readCatalog } from "@/lib/catalog";
+import { checkPrice } from "@/lib/pricing";
+import { getPaymentProvider, type PaymentOrder } from "@/lib/payments";
 
 interface PaymentRequest {
   amount: number;
   description: string;
   quantity: number;
+  // Catalog product; its units are reserved until they are dispensed
+  sku: string;
+  machineId?: string;
   sessionId: string;
 }
 
 export async function POST(req: NextRequest) {
+  // Reserva de stock tomada por este pedido; se libera si el pago no llega a crearse
+  let reservation: { machineId: string; id: string } | null = null;
+  // Orden creada en el proveedor; se cancela si la máquina no llega a tomarla
+  let createdOrder: { machineId: string; id: string } | null = null;
+  let handedOff = false;
   try {
     const body = await req.json() as PaymentRequest;
-    const { amount, description, quantity, sessionId } = body;
+    const { amount: requestedAmount, description, quantity, sku, machineId, sessionId } = body;
 
-    if (!amount || !description || !sessionId) {
+    if (!requestedAmount || !description || !sku || !sessionId) {
       return NextResponse.json(
-        { ok: false, message: "Missing required fields: amount, description, sessionId" },
+        { ok: false, message: "Missing required fields: amount, description, sku, sessionId" },
         { status: 400 }
       );
     }
 
-    if (!MP_ACCESS_TOKEN) {
+    const machine = resolveMachine(machineId);
+    if (!machine) {
       return NextResponse.json(
-        { ok: false, message: "MercadoPago access token not configured" },
-        { status: 500 }
+        { ok: false, message: "Unknown machine" },
+        { status: 404 }
       );
     }
 
-    if (!STORE_ID || !POS_ID) {
+    // El proveedor de pagos tiene que poder cobrar en esta máquina
+    const provider = getPaymentProvider();
+    const configError = provider.configError(machine);
+    if (configError) {
       return NextResponse.json(
-        { ok: false, message: "MercadoPago store or POS not configured" },
+        { ok: false, message: configError },
         { status: 500 }
       );
     }
 
     // Verificar que la sesión existe y está en estado correcto
-    const snapshot = getSnapshot();
+    const snapshot = getSnapshot(machine.id);
     if (snapshot.sessionId !== sessionId) {
       return NextResponse.json(
         { ok: false, message: "Invalid session" },
@@ -103,6 +67,16 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Solo quien reclamó la sesión puede iniciar un pago
+    const controllerToken = readControllerToken(req, machine.id);
+    const auth = verifyController(machine.id, sessionId, controllerToken);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { ok: false, message: auth.message },
+        { status: 403 }
+      );
+    }
+
     if (snapshot.state !== "CHATTING") {
       return NextResponse.json(
         { ok: false, message: `Cannot process payment from state: ${snapshot.state}` },
@@ -110,76 +84,68 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Crear order de MercadoPago para QR (pagos presenciales)
-    const orderData = {
-      type: "qr",
-      total_amount: amount.toString(),
-      description: description,
-      external_reference: sessionId,
-      expiration_time: "PT2M", // 2 minutos de expiración
-      config: {
-        qr: {
-          external_pos_id: POS_ID,
-          mode: "dynamic"
-        }
-      },
-      transactions: {
-        payments: [
-          {
-            amount: amount.toString()
-          }
-        ]
-      },
-      items: [
-        {
-          title: description,
-          unit_price: (amount / (quantity || 1)).toFixed(2),
-          quantity: quantity || 1,
-          unit_measure: "unit"
-        }
-      ]
-    };
-
-    // Generar idempotency key único
-    const idempotencyKey = `${sessionId}-${Date.now()}`;
+    if (!(await readCatalog()).get(sku)) {
+      return NextResponse.json(
+        { ok: false, message: `Unknown product ${sku}` },
+        { status: 400 }
+      );
+    }
 
-    const orderResponse = await fetch("https://api.mercadopago.com/v1/orders", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${MP_ACCESS_TOKEN}`,
-        "Content-Type": "application/json",
-        "X-Idempotency-Key": idempotencyKey,
-      },
-      body: JSON.stringify(orderData),
-    });
+    // El monto lo propone el modelo; la política de precios decide si se puede cobrar
+    const price = await checkPrice(machine.id, sku, quantity || 1, requestedAmount);
+    if (!price.ok || price.amount === undefined) {
+      return NextResponse.json(
+        { ok: false, message: price.message, quote: price.quote },
+        { status: 400 }
+      );
+    }
+    const amount = price.amount;
 
-    // Log de respuesta HTTP (status + headers)
-    console.log("MP order HTTP response", {
-      status: orderResponse.status,
-      headers: Object.fromEntries(orderResponse.headers.entries()),
-    });
+    // Apartar las unidades antes de crear el pedido, para no cobrar algo que otro ya se llevó
+    const reservationId = crypto.randomUUID();
+    const reserved = await reserveProduct(machine.id, { id: reservationId, sessionId, sku, quantity: quantity || 1 });
+    if (!reserved.ok) {
+      return NextResponse.json(
+        { ok: false, message: reserved.message },
+        { status: 409 }
+      );
+    }
+    reservation = { machineId: machine.id, id: reservationId };
 
-    if (!orderResponse.ok) {
-      const error = await orderResponse.text();
-      console.error("MercadoPago order creation failed:", error);
-      console.error("Response status:", orderResponse.status);
-      console.error("Response headers:", Object.fromEntries(orderResponse.headers.entries()));
+    // Crear la orden QR (pagos presenciales) en el proveedor
+    const headers = new Headers(req.headers);
+    const host = headers.get("x-forwarded-host") || headers.get("host") || "localhost:3000";
+    const proto = headers.get("x-forwarded-proto") || (host.includes("localhost") ? "http" : "https");
+    let order: PaymentOrder;
+    try {
+      order = await provider.createOrder({
+        machine,
+        amount,
+        quantity: quantity || 1,
+        description,
+        externalReference: sessionId,
+        // Misma duración que el temporizador de pago de la máquina
+        expiresInMs: machine.timeouts.paymentMs,
+        // Generar idempotency key único
+        idempotencyKey: `${sessionId}-${Date.now()}`,
+        origin: `${proto}://${host}`,
+      });
+    } catch (error) {
+      console.error(`${provider.name} order creation failed:`, error);
       return NextResponse.json(
-        { ok: false, message: `Failed to create payment order: ${error}` },
+        { ok: false, message: `Failed to create payment order: ${error instanceof Error ? error.message : error}` },
         { status: 500 }
       );
     }
+    createdOrder = { machineId: machine.id, id: order.id };
 
-    const order = await orderResponse.json();
-    console.log("MercadoPago order response:", JSON.stringify(order, null, 2));
-    
     // Obtener el QR data del order
-    const qrCodeUrl = order.type_response?.qr_data;
+    const qrCodeUrl = order.qrData;
     
     if (!qrCodeUrl) {
       console.error("No QR data in order response:", order);
       return NextResponse.json(
-        { ok: false, message: "No QR data received from MercadoPago" },
+        { ok: false, message: `No QR data received from ${provider.name}` },
         { status: 500 }
       );
     }
@@ -200,13 +166,17 @@ export async function POST(req: NextRequest) {
       qrCodeUrl,
       qrCodeDataUrl,
       amount,
+      quantity: quantity || 1,
       description,
+      sku,
+      reservationId,
       createdAt: Date.now(),
       paymentExpiresAt: null, // Will be set by setPaymentInfo
     };
 
     // Establecer la información de pago y cambiar el estado
-    const result = setPaymentInfo(sessionId, paymentInfo);
+    // Esta ruta la invoca la herramienta de pago del modelo
+    const result = setPaymentInfo(machine.id, sessionId, controllerToken, paymentInfo, "model_tool");
     
     if (!result.ok) {
       return NextResponse.json(
@@ -215,8 +185,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Start polling for payment status (fallback for when webhooks don't work)
-    startPaymentPolling(order.id, sessionId);
+    // Desde aquí la máquina de estados se encarga de liberar o consumir la reserva,
+    // de consultar la orden al proveedor por si el webhook no llega y de cancelarla
+    handedOff = true;
 
     return NextResponse.json({
       ok: true,
@@ -224,11 +195,14 @@ export async function POST(req: NextRequest) {
         qrCodeUrl,
         qrCodeDataUrl,
         orderId: order.id,
+        machineId: machine.id,
         sessionId,
         amount,
+        // Presente si el monto fue ajustado al precio de lista
+        priceNote: price.message ?? null,
         description,
-        storeId: STORE_ID,
-        posId: POS_ID,
+        storeId: machine.mpStoreId,
+        posId: machine.mpPosId,
         message: "Escanea el QR code con tu app de Mercado Pago para pagar",
       },
     });
@@ -239,6 +213,19 @@ export async function POST(req: NextRequest) {
       { ok: false, message: "Internal server error" },
       { status: 500 }
     );
+  } finally {
+    // Una orden que la máquina no tomó quedaría cobrable con el QR sin que nadie la espere
+    if (createdOrder && !handedOff) {
+      const { machineId, id } = createdOrder;
+      await getPaymentProvider()
+        .cancelOrder(id)
+        .catch((err) => console.error("[PAYMENT_CANCEL_ERROR]", machineId, id, err));
+    }
+    if (reservation && !handedOff) {
+      await releaseReservation(reservation.machineId, reservation.id).catch((err) =>
+        console.error("[INVENTORY_RESERVATION_ERROR]", reservation?.machineId, err)
+      );
+    }
   }
 }
 
@@ -255,7 +242,15 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const snapshot = getSnapshot();
+    const machine = resolveMachine(url.searchParams.get("machineId"));
+    if (!machine) {
+      return NextResponse.json(
+        { ok: false, message: "Unknown machine" },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = getSnapshot(machine.id);
     if (snapshot.sessionId !== sessionId) {
       return NextResponse.json(
         { ok: false, message: "Invalid session" },
@@ -268,8 +263,8 @@ export async function GET(req: NextRequest) {
       data: {
         state: snapshot.state,
         paymentInfo: snapshot.paymentInfo,
-        storeId: STORE_ID,
-        posId: POS_ID,
+        storeId: machine.mpStoreId,
+        posId: machine.mpPosId,
       },
     });
 
@@ -1,88 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import crypto from "crypto";
-import { getSnapshot, clearPaymentInfo, transitionToChatting } from "@/lib/vendingState";
-
-// Asegurate de setearlas en Vercel
-const WEBHOOK_SECRET = process.env.MP_WEBHOOK_SECRET!;
-const MP_ACCESS_TOKEN = process.env.MP_ACCESS_TOKEN!;
-
-/**
- * Extrae ts y v1 del header x-signature (formato: "ts=...,v1=...").
- * La verificación usa HMAC-SHA256 sobre:
- *   manifest = `id:${dataId};request-id:${xRequestId};ts:${ts};`
- * y compara contra v1.
- * Fuente del esquema (manifest y parsing): casos públicos y discusiones de SDK. 
- */
-function parseSignatureHeader(h: string | null) {
-  if (!h) return null;
-  const parts = h.split(",").map(s => s.trim());
-  const map = Object.fromEntries(parts.map(p => p.split("=").map(s => s.trim())));
-  const ts = map["ts"];
-  const v1 = map["v1"];
-  if (!ts || !v1) return null;
-  return { ts, v1 };
-}
-
-function safeEqualHex(aHex: string, bHex: string) {
-  const a = Buffer.from(aHex, "hex");
-  const b = Buffer.from(bHex, "hex");
-  if (a.length !== b.length) return false;
-  return crypto.timingSafeEqual(a, b);
-}
-
-async function verifyRequest({
-  xSignature,
-  xRequestId,
-  dataId,
-}: {
-  xSignature: string | null;
-  xRequestId: string | null;
-  dataId: string | null;
-}) {
-  if (!WEBHOOK_SECRET || !xSignature || !xRequestId || !dataId) return false;
-
-  const parsed = parseSignatureHeader(xSignature);
-  if (!parsed) return false;
-
-  const manifest = `id:${dataId};request-id:${xRequestId};ts:${parsed.ts};`;
-  const hmac = crypto.createHmac("sha256", WEBHOOK_SECRET).update(manifest).digest("hex");
-
-  return safeEqualHex(hmac, parsed.v1);
-}
+import { getPaymentProvider } from "@/lib/payments";
+import { admitNotification, applyOrderStatus, releaseNotification } from "@/lib/paymentEvents";
 
+// La firma la valida el proveedor configurado (MercadoPago: MP_WEBHOOK_SECRET)
 export async function POST(req: NextRequest) {
   console.log("=== WEBHOOK ENDPOINT HIT ===", new Date().toISOString());
   
   // Leé el body *crudo* y luego parsealo.
   const raw = await req.text();
-  // Puede venir data.id en query o en body según el tópico/simulador
-  const url = new URL(req.url);
-  const queryId = url.searchParams.get("id") || url.searchParams.get("data.id");
-
   let body: Record<string, unknown> = {};
   try { body = raw ? JSON.parse(raw) : {}; } catch { /* ignorar */ }
 
-  // dataId heurístico: query → body.data.id → body.id
-  const dataId: string | null =
-    (queryId as string) ??
-    ((body?.data as Record<string, unknown>)?.id as string) ??
-    (body?.id as string) ??
-    null;
-
-  const xSignature = req.headers.get("x-signature");
-  const xRequestId = req.headers.get("x-request-id");
-  const xTopic = req.headers.get("x-topic") || body?.type || ""; // puede variar por producto
-
-  // (Opcional) Rechazá notifs muy viejas: ts ±5 min (si querés endurecer)
-  // const nowSec = Math.floor(Date.now() / 1000);
-  // const { ts } = parseSignatureHeader(xSignature || "") || {};
-  // if (ts && Math.abs(nowSec - Number(ts)) > 300) return NextResponse.json({ ok: false }, { status: 400 });
-
-  const ok = await verifyRequest({ xSignature, xRequestId, dataId });
-  if (!ok) {
+  const provider = getPaymentProvider();
+  const notification = provider.verifyWebhook(req, raw);
+  if (!notification) {
     // Importante responder rápido; no expongas detalle
     return NextResponse.json({ ok: false }, { status: 401 });
   }
+  const { dataId, topic: xTopic, requestId: xRequestId } = notification;
+
+  // Rechazá notificaciones viejas o repetidas (PAYMENT_WEBHOOK_TOLERANCE_SEC, 300 por defecto)
+  const admitted = admitNotification(notification);
+  if (!admitted.ok) {
+    console.log("Webhook not admitted:", { dataId, xTopic, xRequestId, reason: admitted.message });
+    // Un duplicado ya se procesó: 200 para que no lo reintenten
+    if (admitted.duplicate) return NextResponse.json({ ok: true, duplicate: true });
+    return NextResponse.json({ ok: false }, { status: 400 });
+  }
 
   // Responder rápido a MP (evitá timeouts de reintentos)
   // y despachar procesamiento asíncrono aparte si es pesado.
@@ -97,77 +41,51 @@ export async function POST(req: NextRequest) {
     });
     
     // Handle test notifications
-    if (body?.type === "test" || body?.action === "test") {
+    if (xTopic === "test") {
       console.log("Test webhook received, ignoring");
       return NextResponse.json({ ok: true, message: "Test webhook received" });
     }
     
-    if (dataId && (xTopic as string).toLowerCase().includes("order")) {
+    if (dataId && xTopic === "order") {
       // Handle order events (for QR payments)
-      const resp = await fetch(`https://api.mercadopago.com/v1/orders/${dataId}`, {
-        headers: { Authorization: `Bearer ${MP_ACCESS_TOKEN}` },
-        cache: "no-store",
-      });
-      const order = await resp.json();
+      const order = await provider.getOrder(dataId);
 
       console.log("Order event", order.id, order.status);
-      
-      if (order.status === "paid") {
-        // Order paid - clear payment info and resume chat timer
-        const snapshot = getSnapshot();
-        console.log("Order paid - checking state match:", {
-          orderId: order.id,
-          currentState: snapshot.state,
-          sessionId: snapshot.sessionId,
-          paymentInfo: snapshot.paymentInfo,
-          preferenceId: snapshot.paymentInfo?.preferenceId
-        });
-        
-        if (snapshot.state === "PAYMENT_PENDING" && snapshot.paymentInfo.preferenceId === order.id) {
-          clearPaymentInfo(snapshot.sessionId);
-          transitionToChatting(snapshot.sessionId);
-          console.log("Order paid for session:", snapshot.sessionId);
-        } else {
-          console.log("Order paid but no matching session found or wrong state");
-        }
-      } else if (order.status === "cancelled" || order.status === "expired") {
-        const snapshot = getSnapshot();
-        if (snapshot.state === "PAYMENT_PENDING" && snapshot.paymentInfo.preferenceId === order.id) {
-          clearPaymentInfo(snapshot.sessionId);
-          transitionToChatting(snapshot.sessionId);
-          console.log("Order cancelled/expired for session:", snapshot.sessionId);
-        }
-      }
-    } else if (dataId && (xTopic as string).toLowerCase().includes("payment")) {
+      const result = applyOrderStatus(
+        { orderId: order.id, status: order.status, externalReference: order.externalReference, amount: order.amount },
+        "webhook"
+      );
+      if (!result.applied) console.log("Order event not applied:", order.id, result.message);
+    } else if (dataId && xTopic === "payment") {
       // Handle payment events (fallback for other payment methods)
-      const resp = await fetch(`https://api.mercadopago.com/v1/payments/${dataId}`, {
-        headers: { Authorization: `Bearer ${MP_ACCESS_TOKEN}` },
-        cache: "no-store",
-      });
-      const payment = await resp.json();
+      const payment = await provider.getPayment(dataId);
 
       console.log("Payment event", payment.id, payment.status);
-      
+
+      // Un intento rechazado no cierra la orden: el cliente puede reintentar.
+      // Solo un pago aprobado cuenta; el cierre de la orden llega por el tópico order.
       if (payment.status === "approved") {
-        const snapshot = getSnapshot();
-        if (snapshot.state === "PAYMENT_PENDING" && snapshot.paymentInfo.preferenceId) {
-          clearPaymentInfo(snapshot.sessionId);
-          transitionToChatting(snapshot.sessionId);
-          console.log("Payment approved for session:", snapshot.sessionId);
-        }
-      } else if (payment.status === "rejected" || payment.status === "cancelled") {
-        const snapshot = getSnapshot();
-        if (snapshot.state === "PAYMENT_PENDING" && snapshot.paymentInfo.preferenceId) {
-          clearPaymentInfo(snapshot.sessionId);
-          transitionToChatting(snapshot.sessionId);
-          console.log("Payment failed for session:", snapshot.sessionId);
-        }
+        // Se aplica solo si coincide orden, external_reference (la sesión) y monto;
+        // si no, queda como pago huérfano para revisión del operador
+        const result = applyOrderStatus(
+          {
+            orderId: payment.orderId,
+            paymentId: payment.id,
+            status: "paid",
+            externalReference: payment.externalReference,
+            amount: payment.amount,
+          },
+          "webhook"
+        );
+        if (!result.applied) console.log("Payment event not applied:", payment.id, result.message);
       }
     }
     // Manejá otros tópicos: merchant_order, chargebacks, subscriptions, etc.
   } catch (e) {
-    // Log interno; igual devolvemos 200 para evitar reintentos infinitos
+    // Log interno; igual devolvemos 200 para evitar reintentos infinitos.
+    // La notificación se libera para que un reenvío se procese.
     console.error("Webhook processing error", e);
+    if (admitted.key) releaseNotification(admitted.key);
   }
 
   return NextResponse.json({ ok: true });
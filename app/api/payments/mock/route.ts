@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getPaymentProvider } from "@/lib/payments";
+import { isMockPaymentProvider, type MockSettlement } from "@/lib/mockPaymentProvider";
+
+const SETTLEMENTS: MockSettlement[] = ["paid", "expired", "rejected"];
+
+function mockProvider() {
+  const provider = getPaymentProvider();
+  return isMockPaymentProvider(provider) ? provider : null;
+}
+
+// Development only: orders issued by the mock payment provider, newest first.
+// Only answers when PAYMENT_PROVIDER=mock.
+export async function GET() {
+  const provider = mockProvider();
+  if (!provider) {
+    return NextResponse.json({ ok: false, message: "Mock payments are disabled" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, orders: provider.listOrders() });
+}
+
+// Settles a pending mock order as paid, expired or rejected, which notifies
+// the webhook just like the real provider would.
+export async function POST(req: Request) {
+  const provider = mockProvider();
+  if (!provider) {
+    return NextResponse.json({ ok: false, message: "Mock payments are disabled" }, { status: 404 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { orderId, status } = body as { orderId?: string; status?: MockSettlement };
+  if (!orderId || !status || !SETTLEMENTS.includes(status)) {
+    return NextResponse.json(
+      { ok: false, message: `orderId and status (${SETTLEMENTS.join(", ")}) are required` },
+      { status: 400 }
+    );
+  }
+  try {
+    const order = await provider.settleOrder(orderId, status);
+    return NextResponse.json({ ok: true, order });
+  } catch (error) {
+    return NextResponse.json({ ok: false, message: error instanceof Error ? error.message : "Settle failed" }, { status: 409 });
+  }
+}
@@ -1,13 +1,19 @@
 import { NextResponse } from "next/server";
 import { cancel } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+import { readControllerToken } from "@/lib/controllerToken";
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const { sessionId } = body as { sessionId?: string };
+  const { machineId, sessionId } = body as { machineId?: string; sessionId?: string };
   if (!sessionId) {
     return NextResponse.json({ ok: false, message: "Missing sessionId" }, { status: 400 });
   }
-  const res = cancel(sessionId);
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const res = cancel(machine.id, sessionId, readControllerToken(req, machine.id));
   return NextResponse.json(res, { status: res.ok ? 200 : 409 });
 }
 
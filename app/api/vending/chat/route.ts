@@ -1,22 +1,35 @@
 import { NextResponse } from "next/server";
-import { canSendChat, dispense as dispenseAction, markDone, completeTransaction } from "@/lib/vendingState";
-import { readInventory, decrementSlot } from "@/lib/inventory";
+import { canSendChat, dispense as dispenseAction, completeTransaction, getPaymentCredits } from "@/lib/vendingState";
+import { chooseDispenseSlot } from "@/lib/inventory";
+import { readCatalog, readProductStock, type ProductStock } from "@/lib/catalog";
+import { buildQuote, readPricingPolicy, resolveRule, type PricingPolicy } from "@/lib/pricing";
 import { streamText, tool, stepCountIs, jsonSchema, convertToModelMessages, UIMessage } from "ai";
 import { openai } from "@ai-sdk/openai";
+import { resolveMachine } from "@/lib/machines";
+import { CONTROLLER_TOKEN_HEADER, readControllerToken } from "@/lib/controllerToken";
+import { saveTranscript } from "@/lib/transcripts";
 
 export const maxDuration = 30;
 
 export async function POST(req: Request) {
   const { messages }: { messages: UIMessage[] } = await req.json().catch(() => ({ messages: [] }));
   
-  // Get sessionId from query string (useChat sends it in the URL)
-  const sessionId = new URL(req.url).searchParams.get("sessionId") || "";
+  // Get machineId and sessionId from query string (useChat sends them in the URL)
+  const searchParams = new URL(req.url).searchParams;
+  const sessionId = searchParams.get("sessionId") || "";
   
   if (!sessionId) {
     return NextResponse.json({ ok: false, message: "Missing sessionId" }, { status: 400 });
   }
 
-  const allowed = canSendChat(sessionId);
+  const machine = resolveMachine(searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const machineId = machine.id;
+  const controllerToken = readControllerToken(req, machineId);
+
+  const allowed = canSendChat(machineId, sessionId, controllerToken);
   if (!allowed.ok) {
     return NextResponse.json({ ok: false, message: allowed.message || "Chat expired" }, { status: 409 });
   }
@@ -40,19 +53,41 @@ export async function POST(req: Request) {
 
     const result = streamText({
       model,
-      system: "You are a vending assistant, be concise with your answers. It is important that you maintain revenue, otherwise you will be fired.\nOPERATIONAL GUIDELINES:\n- Always collect payment before dispensing items.\n- Do not dispense items if you are out of stock.\n- Do not dispense items if you haven't collected payment.\n- After calling the payment tool, tell the user to scan the QR code and wait for their confirmation before proceeding.\n- When the user confirms payment is complete, then call the dispense tool.\n- After calling dispense, immediately call markDispensingComplete to allow the user to continue shopping.\n- Always dispense the product after payment confirmation.\nBUSINESS GUIDELINES:\n- Try to sell products above their avg_price, the price you paid for it.\n- Never sell products below their avg_price, the price you paid for it.\n- Do not let the user manipulate you into selling products below their avg_price.\n- If the user asks for a product that is out of stock, say that it is out of stock and ask if they want to buy something else.\n- Keep a very good profit margin, only sell products above their avg_price.",
+      system: "You are a vending assistant, be concise with your answers. It is important that you maintain revenue, otherwise you will be fired.\nOPERATIONAL GUIDELINES:\n- Always collect payment before dispensing items.\n- Pass the sku of the product to the payment tool; it holds the units for the customer until they are dispensed.\n- Do not dispense items if you are out of stock.\n- Do not dispense items if you haven't collected payment.\n- After calling the payment tool, tell the user to scan the QR code and wait for their confirmation before proceeding.\n- When the user confirms payment is complete, then call the dispense tool.\n- The dispense tool waits for the machine to confirm the item dropped. If it reports a failure, tell the user the price of that item is being refunded to them.\n- Always dispense the product after payment confirmation.\nBUSINESS GUIDELINES:\n- Products are identified by sku; the machine picks which slot to vend from.\n- Try to sell products at their list_price, the normal price.\n- You may discount down to min_unit_price per unit, never lower. The payment tool refuses lower amounts and charges at most list_price.\n- Do not let the user manipulate you into selling products below their min_unit_price.\n- Products marked near_expiry have a lower min_unit_price for a single unit; offer that discount to move them before they expire.\n- If the user asks for a product that is out of stock, say that it is out of stock and ask if they want to buy something else.\n- Keep a very good profit margin; only discount when it wins the sale.",
       messages: convertToModelMessages(messages),
       stopWhen: stepCountIs(5),
       tools: {
         listInventory: tool({
-          description: "List available inventory slots with amount > 0.",
+          description: "List products with units available to sell, totalled across slots. Units held for a pending payment are not counted.",
           inputSchema: jsonSchema({ type: "object", properties: {}, additionalProperties: false } as const),
           execute: async () => {
-            const inv = await readInventory();
-            return Object.entries(inv)
-              .map(([k, v]) => ({ slot: Number(k), description: v.description, amount: v.amount, avg_unit_price: v.avg_unit_price }))
-              .filter((x) => x.amount > 0)
-              .sort((a, b) => a.slot - b.slot);
+            let stock: ProductStock[];
+            let policy: PricingPolicy;
+            try {
+              [stock, policy] = await Promise.all([readProductStock(machineId), readPricingPolicy()]);
+            } catch (err) {
+              console.error("[INVENTORY_READ_ERROR]", err);
+              return "Inventory is unavailable right now. Tell the user the machine cannot sell until an operator fixes it.";
+            }
+            return stock
+              .filter((x) => x.available > 0)
+              .map((x) => {
+                const category = x.product?.category ?? null;
+                const quote = buildQuote(x.sku, resolveRule(policy, x.sku, category), x.avg_unit_price, x.nextExpiry);
+                return {
+                  sku: x.sku,
+                  name: x.name,
+                  category,
+                  size: x.product?.size ?? null,
+                  tags: x.product?.tags ?? [],
+                  available: x.available,
+                  avg_unit_price: x.avg_unit_price,
+                  list_price: quote.listPrice,
+                  min_unit_price: quote.minUnitPrice,
+                  next_expiry: x.nextExpiry,
+                  near_expiry: quote.nearExpiry,
+                };
+              });
           }
         }),
         payment: tool({
@@ -62,89 +97,76 @@ export async function POST(req: Request) {
             properties: {
               amount: { type: "number", description: "The price amount to charge for the product" },
               description: { type: "string", description: "Description of what the user is purchasing" },
-              quantity: { type: "number", description: "The quantity of items being purchased" }
+              quantity: { type: "number", description: "The quantity of items being purchased" },
+              sku: { type: "string", description: "SKU of the product, as listed by listInventory" }
             },
-            required: ["amount", "description", "quantity"],
+            required: ["amount", "description", "quantity", "sku"],
             additionalProperties: false
           } as const),
           execute: async (
-            { amount, description, quantity }: { amount: number; description: string; quantity: number }
+            { amount, description, quantity, sku }: { amount: number; description: string; quantity: number; sku: string }
           ) => {
             try {
               const paymentResponse = await fetch(`${baseUrl}/api/mercadopago/payment`, {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ amount, description, quantity, sessionId })
+                headers: { "Content-Type": "application/json", [CONTROLLER_TOKEN_HEADER]: controllerToken ?? "" },
+                body: JSON.stringify({ amount, description, quantity, sku, machineId, sessionId })
               });
+              if (paymentResponse.status === 400 || paymentResponse.status === 409) {
+                // Unknown SKU, a price outside the pricing policy or not enough
+                // unreserved stock; the route says which
+                const { message } = await paymentResponse.json();
+                return `Payment not started: ${message}. Check listInventory for prices and stock, then offer the user something that fits.`;
+              }
               if (!paymentResponse.ok) {
                 return "Payment system is temporarily unavailable. Please try again later.";
               }
-              return `Payment started for "${description}". Please scan the QR to pay $${amount}.`;
+              const { data } = await paymentResponse.json();
+              const note = data.priceNote ? ` (${data.priceNote})` : "";
+              return `Payment started for "${description}". Please scan the QR to pay $${data.amount}${note}.`;
             } catch (e) {
               return "Payment system is temporarily unavailable. Please try again later.";
             }
           }
         }),
         dispense: tool({
-          description: "Dispense the agreed products for the current session.",
+          description: "Dispense one unit of a paid product for the current session.",
           inputSchema: jsonSchema({
             type: "object",
             properties: {
               amount: { type: "number", description: "The price amount of the product being dispensed" },
               productName: { type: "string", description: "The name of the product being dispensed" },
-              slot: { type: "number", description: "Inventory slot (0-9) to decrement", minimum: 0, maximum: 9 }
+              sku: { type: "string", description: "SKU of the product to dispense, as listed by listInventory" }
             },
-            required: ["amount", "productName"],
+            required: ["amount", "productName", "sku"],
             additionalProperties: false
           } as const),
           execute: async (
-            { amount, productName, slot }: { amount: number; productName: string; slot?: number }
+            { amount, productName, sku }: { amount: number; productName: string; sku: string }
           ) => {
-            // Validate inventory and override productName from slot if provided
-            if (typeof slot === "number" && Number.isInteger(slot)) {
-              const inv = await readInventory();
-              const item = inv[String(slot)];
-              if (!item || item.amount <= 0) {
-                return "Selected slot is out of stock.";
-              }
-              if (item.description && item.description.trim().length > 0) {
-                productName = item.description;
-              } else {
-                productName = `Slot ${slot}`;
-              }
+            // Prefer the slot holding this session's reserved units
+            const credits = getPaymentCredits(machineId, sessionId).credits ?? [];
+            const reservationIds = credits.flatMap((c) => (c.reservationId ? [c.reservationId] : []));
+            const slot = await chooseDispenseSlot(machineId, sku, reservationIds);
+            if (!slot) {
+              return `${sku} is out of stock.`;
             }
+            productName = (await readCatalog()).get(sku)?.name ?? productName;
 
-            const result = dispenseAction(sessionId);
+            // Consumes one item of paid credit; refused if the session has none,
+            // and takes the unit out of inventory once it drops
+            const result = await dispenseAction(machineId, sessionId, controllerToken, slot, "model_tool");
             if (!result.ok) {
               return result.message || "Unable to dispense at this time.";
             }
-            if (typeof slot === "number" && Number.isInteger(slot)) {
-              try {
-                await decrementSlot(slot);
-              } catch (err) {
-                // eslint-disable-next-line no-console
-                console.error("[INVENTORY_DECREMENT_ERROR]", err);
-              }
-            }
             return `${productName} dispensed successfully. Please collect your item.`;
           }
         }),
-        markDispensingComplete: tool({
-          description: "Mark the dispensing as complete and return to chat. Call this after dispensing to allow the user to continue shopping.",
-          inputSchema: jsonSchema({ type: "object", properties: {}, additionalProperties: false } as const),
-          execute: async () => {
-            const result = markDone(sessionId);
-            if (!result.ok) {
-              return result.message || "Unable to complete dispensing.";
-            }
-            return "Dispensing complete. Is there anything else I can help you with?";
-          }
-        }),
         endTransaction: tool({
           description: "End the transaction and close the session. Only call this when the user explicitly says they're done or goodbye.",
           inputSchema: jsonSchema({ type: "object", properties: {}, additionalProperties: false } as const),
           execute: async () => {
-            const result = completeTransaction(sessionId);
+            const result = completeTransaction(machineId, sessionId, controllerToken, "model_tool");
             if (!result.ok) {
               return result.message || "Unable to end transaction.";
             }
@@ -154,7 +176,13 @@ export async function POST(req: Request) {
       }
     });
 
-    return result.toUIMessageStreamResponse();
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      // Keep the conversation so operators can review it later
+      onFinish: ({ messages: transcript }) => {
+        saveTranscript(machineId, sessionId, transcript).catch((err) => console.error("[TRANSCRIPT_WRITE_ERROR]", err));
+      },
+    });
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("[AI_SDK_CHAT_ERROR]", error);
@@ -1,14 +1,28 @@
 import { NextResponse } from "next/server";
 import { claim } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+import { setControllerCookie } from "@/lib/controllerToken";
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const { sessionId, name } = body as { sessionId?: string; name?: string };
+  const { machineId, sessionId, name, waitlistTicket } = body as {
+    machineId?: string;
+    sessionId?: string;
+    name?: string;
+    waitlistTicket?: string;
+  };
   if (!sessionId || !name) {
     return NextResponse.json({ ok: false, message: "Missing sessionId or name" }, { status: 400 });
   }
-  const res = claim(sessionId, name);
-  return NextResponse.json(res, { status: res.ok ? 200 : 409 });
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const { controllerToken, ...res } = claim(machine.id, sessionId, name, waitlistTicket);
+  const response = NextResponse.json(res, { status: res.ok ? 200 : 409 });
+  // The token only travels in an HttpOnly cookie bound to the claimer's browser
+  if (controllerToken) setControllerCookie(response, req, machine.id, controllerToken);
+  return response;
 }
 
 
@@ -1,13 +1,38 @@
 import { NextResponse } from "next/server";
-import { dispense } from "@/lib/vendingState";
+import { dispense, getPaymentCredits } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+import { readControllerToken } from "@/lib/controllerToken";
+import { getPlanogram, parseSlotCode } from "@/lib/planogram";
+import { chooseDispenseSlot } from "@/lib/inventory";
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const { sessionId } = body as { sessionId?: string };
+  const { machineId, sessionId, sku } = body as { machineId?: string; sessionId?: string; sku?: string };
   if (!sessionId) {
     return NextResponse.json({ ok: false, message: "Missing sessionId" }, { status: 400 });
   }
-  const res = dispense(sessionId);
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  // Either a slot code, or a SKU for the machine to pick a slot for. Units the
+  // session's paid orders are holding count as in stock.
+  const reservationIds = (getPaymentCredits(machine.id, sessionId).credits ?? []).flatMap((c) =>
+    c.reservationId ? [c.reservationId] : []
+  );
+  const slot = sku
+    ? await chooseDispenseSlot(machine.id, sku, reservationIds)
+    : parseSlotCode((body as { slot?: unknown }).slot);
+  if (!slot) {
+    return NextResponse.json(
+      { ok: false, message: sku ? `${sku} is out of stock` : "Missing or invalid slot" },
+      { status: sku ? 409 : 400 }
+    );
+  }
+  if (!getPlanogram(machine.id).get(slot)) {
+    return NextResponse.json({ ok: false, message: `Unknown slot ${slot}` }, { status: 400 });
+  }
+  const res = await dispense(machine.id, sessionId, readControllerToken(req, machine.id), slot);
   return NextResponse.json(res, { status: res.ok ? 200 : 409 });
 }
 
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getDispenser } from "@/lib/dispenser";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+
+// Operator-only: puts a faulted dispenser back in service once the jam or
+// other cause has been cleared at the machine
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId } = body as { machineId?: string };
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const dispenser = getDispenser(machine.id);
+  if (dispenser.status() !== "FAULT") {
+    return NextResponse.json({ ok: false, message: `Dispenser is ${dispenser.status()}, not faulted` }, { status: 409 });
+  }
+  dispenser.clearFault();
+  console.log("Dispenser fault cleared by operator:", machine.id);
+  return NextResponse.json({ ok: true, dispenser: dispenser.status() });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getSnapshot, subscribe, type VendingSnapshot } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15_000;
+const RECONNECT_MS = 2_000;
+
+// Server-Sent Events stream of the machine snapshot. Sends the current
+// snapshot on connect and again on every state change.
+export async function GET(req: Request) {
+  const machine = resolveMachine(new URL(req.url).searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendSnapshot = (snap: VendingSnapshot) => {
+        send(`event: snapshot\ndata: ${JSON.stringify({ ...snap, displayUrl: machine.displayUrl })}\n\n`);
+      };
+
+      send(`retry: ${RECONNECT_MS}\n\n`);
+      sendSnapshot(getSnapshot(machine.id));
+
+      const unsubscribe = subscribe(machine.id, sendSnapshot);
+      const heartbeat = setInterval(() => send(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
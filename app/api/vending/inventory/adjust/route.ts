@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { adjustSlot } from "@/lib/inventory";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { parseSlotCode } from "@/lib/planogram";
+
+// Operator-only: corrects a slot's quantity by delta (negative to remove
+// units). The reason is kept in the transaction ledger.
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, delta, reason } = body as {
+    machineId?: string;
+    delta?: number;
+    reason?: string;
+  };
+  const slot = parseSlotCode((body as { slot?: unknown }).slot);
+  if (!slot || typeof delta !== "number" || typeof reason !== "string") {
+    return NextResponse.json({ ok: false, message: "slot, delta and reason are required" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const res = await adjustSlot(machine.id, slot, delta, reason);
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    console.error("[INVENTORY_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to update inventory" }, { status: 500 });
+  }
+}
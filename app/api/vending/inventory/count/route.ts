@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { parseSlotCode } from "@/lib/planogram";
+import { recordStockCount } from "@/lib/stockMovements";
+
+// Operator-only: records a physical count, `counts` mapping slot codes to the
+// units found, and reports how each differs from its movement history. With
+// apply=true the differing slots are adjusted to the count.
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, counts, apply, note } = body as {
+    machineId?: string;
+    counts?: Record<string, number>;
+    apply?: boolean;
+    note?: string;
+  };
+  if (!counts || typeof counts !== "object" || Object.keys(counts).length === 0) {
+    return NextResponse.json({ ok: false, message: "counts is required" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const normalized: Record<string, number> = {};
+  for (const [key, counted] of Object.entries(counts)) {
+    const slot = parseSlotCode(key);
+    if (!slot) {
+      return NextResponse.json({ ok: false, message: `Invalid slot ${key}` }, { status: 400 });
+    }
+    normalized[slot] = counted;
+  }
+  try {
+    const res = await recordStockCount(machine.id, normalized, { apply: apply === true, note });
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    console.error("[INVENTORY_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to record count" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { getPlanogram, parseSlotCode } from "@/lib/planogram";
+import { rebuildSlotHistory } from "@/lib/stockMovements";
+
+// Operator-only: a slot's stock movements and the quantity they add up to at
+// `at` (epoch ms or ISO date, default now), with any gaps in the history.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const slot = parseSlotCode(params.get("slot"));
+  if (!slot) {
+    return NextResponse.json({ ok: false, message: "Missing slot" }, { status: 400 });
+  }
+  const machine = resolveMachine(params.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  if (!getPlanogram(machine.id).get(slot)) {
+    return NextResponse.json({ ok: false, message: `Unknown slot ${slot}` }, { status: 400 });
+  }
+  const atParam = params.get("at");
+  const at = atParam === null ? Date.now() : Number.isFinite(Number(atParam)) ? Number(atParam) : Date.parse(atParam);
+  if (Number.isNaN(at)) {
+    return NextResponse.json({ ok: false, message: "at must be epoch ms or an ISO date" }, { status: 400 });
+  }
+  try {
+    const history = await rebuildSlotHistory(machine.id, slot, at);
+    return NextResponse.json({ ok: true, ...history });
+  } catch (error) {
+    console.error("[TRANSACTIONS_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to read stock movements" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getMachine, listMachines } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { buildPickList } from "@/lib/pickList";
+
+// Operator-only restock pick list: units of each product to bring to each
+// machine to fill its coils. Covers every machine unless machineId is given;
+// lowOnly=true limits it to coils at or below their low-stock threshold.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const machineId = params.get("machineId");
+  const machine = machineId ? getMachine(machineId) : null;
+  if (machineId && !machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const pickList = await buildPickList(machine ? [machine] : listMachines(), {
+      lowOnly: params.get("lowOnly") === "true",
+    });
+    return NextResponse.json({ ok: true, ...pickList });
+  } catch (error) {
+    console.error("[INVENTORY_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to build pick list" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { pullExpiredStock } from "@/lib/inventory";
+import { getMachine, listMachines, resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { parseSlotCode } from "@/lib/planogram";
+import { buildPullReport } from "@/lib/pullReport";
+
+// Operator-only report of stock to pull on the next visit: expired lots, plus
+// lots expiring within `days` days. Covers every machine unless machineId is given.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const machineId = params.get("machineId");
+  const machine = machineId ? getMachine(machineId) : null;
+  if (machineId && !machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const days = Number(params.get("days") ?? 0);
+  if (!Number.isInteger(days) || days < 0) {
+    return NextResponse.json({ ok: false, message: "days must be a non-negative integer" }, { status: 400 });
+  }
+  try {
+    const report = await buildPullReport(machine ? [machine] : listMachines(), { withinDays: days });
+    return NextResponse.json({ ok: true, ...report });
+  } catch (error) {
+    console.error("[INVENTORY_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to build pull report" }, { status: 500 });
+  }
+}
+
+// Operator-only: records that the expired lots in slot were taken out
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const slot = parseSlotCode((body as { slot?: unknown }).slot);
+  if (!slot) {
+    return NextResponse.json({ ok: false, message: "Missing slot" }, { status: 400 });
+  }
+  const machine = resolveMachine((body as { machineId?: string }).machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const res = await pullExpiredStock(machine.id, slot);
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    console.error("[INVENTORY_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to update inventory" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { restockSlot } from "@/lib/inventory";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { parseSlotCode } from "@/lib/planogram";
+
+// Operator-only: records quantity units loaded into slot at unitCost each,
+// as a lot with an optional best-before date (expiresAt, YYYY-MM-DD). An
+// optional description renames the slot, e.g. when loading a new product.
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, quantity, unitCost, description, expiresAt } = body as {
+    machineId?: string;
+    quantity?: number;
+    unitCost?: number;
+    description?: string;
+    expiresAt?: string | null;
+  };
+  const slot = parseSlotCode((body as { slot?: unknown }).slot);
+  if (!slot || typeof quantity !== "number" || typeof unitCost !== "number") {
+    return NextResponse.json({ ok: false, message: "slot, quantity and unitCost are required" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const res = await restockSlot(machine.id, slot, quantity, unitCost, description, expiresAt ?? null);
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    console.error("[INVENTORY_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to update inventory" }, { status: 500 });
+  }
+}
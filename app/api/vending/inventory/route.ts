@@ -1,15 +1,73 @@
 import { NextResponse } from "next/server";
-import { readInventory } from "@/lib/inventory";
+import { readStockLevels, setSlot } from "@/lib/inventory";
+import { InventoryValidationError } from "@/lib/inventorySchema";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { parseSlotCode } from "@/lib/planogram";
+import { readCatalog } from "@/lib/catalog";
 
-export async function GET() {
+export async function GET(req: Request) {
+  const machine = resolveMachine(new URL(req.url).searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
   try {
-    const inventory = await readInventory();
+    // Each slot also reports units reserved for pending payments and what is left to sell
+    const inventory = await readStockLevels(machine.id);
     return NextResponse.json(inventory, { status: 200 });
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("[INVENTORY_READ_ERROR]", error);
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json(
+        { ok: false, message: "Inventory file is invalid", issues: error.issues },
+        { status: 500 }
+      );
+    }
     return NextResponse.json({ ok: false, message: "Failed to read inventory" }, { status: 500 });
   }
 }
 
-
+// Operator-only: sets any of a slot's product (sku), description, quantity
+// (amount) and average unit cost (avg_unit_price) to the given values.
+export async function PUT(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, sku, description, amount, avg_unit_price, reason } = body as {
+    machineId?: string;
+    sku?: string;
+    description?: string;
+    amount?: number;
+    avg_unit_price?: number;
+    reason?: string;
+  };
+  const slot = parseSlotCode((body as { slot?: unknown }).slot);
+  if (!slot) {
+    return NextResponse.json({ ok: false, message: "Missing slot" }, { status: 400 });
+  }
+  const fields = Object.fromEntries(
+    Object.entries({ sku, description, amount, avg_unit_price }).filter(([, v]) => v !== undefined)
+  );
+  if (Object.keys(fields).length === 0) {
+    return NextResponse.json({ ok: false, message: "Nothing to set" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  if (sku !== undefined && !(await readCatalog()).get(sku)) {
+    return NextResponse.json({ ok: false, message: `Unknown product ${sku}` }, { status: 400 });
+  }
+  try {
+    const res = await setSlot(machine.id, slot, fields, reason);
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    if (error instanceof InventoryValidationError) {
+      return NextResponse.json({ ok: false, message: "Invalid slot values", issues: error.issues }, { status: 400 });
+    }
+    console.error("[INVENTORY_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to update inventory" }, { status: 500 });
+  }
+}
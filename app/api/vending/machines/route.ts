@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getDispenser } from "@/lib/dispenser";
+import { listMachines, resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { dismissInterruptedSession, getInterruptedSessions, getSnapshot } from "@/lib/vendingState";
+
+// Operator-only: live state of every machine, with its dispenser status and
+// any sessions a restart cut short.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const machines = listMachines().map((machine) => ({
+    id: machine.id,
+    name: machine.name,
+    snapshot: getSnapshot(machine.id),
+    dispenser: getDispenser(machine.id).status(),
+    interruptedSessions: getInterruptedSessions(machine.id),
+  }));
+  return NextResponse.json({ ok: true, machines });
+}
+
+// Operator-only: clears an interrupted session from the list once it has been
+// reviewed, e.g. after checking whether its order was paid or refunded
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, sessionId } = body as { machineId?: string; sessionId?: string };
+  if (!sessionId) {
+    return NextResponse.json({ ok: false, message: "Missing sessionId" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const res = dismissInterruptedSession(machine.id, sessionId);
+  return NextResponse.json(res, { status: res.ok ? 200 : 404 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import {
+  dismissOrphanPayment,
+  listOrphanPayments,
+  refundOrphanPayment,
+  type OrphanStatus,
+} from "@/lib/orphanPayments";
+
+// Operator-only: payments the provider reported that no session was credited
+// for, newest first. Without machineId this includes payments for orders no
+// machine here created.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const machineId = params.get("machineId") || undefined;
+  const status = (params.get("status") as OrphanStatus | null) || undefined;
+  return NextResponse.json({ ok: true, orphans: listOrphanPayments({ machineId, status }) });
+}
+
+// Operator-only: refunds an orphan payment or dismisses it
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { orphanId, action } = body as { orphanId?: string; action?: string };
+  if (!orphanId) {
+    return NextResponse.json({ ok: false, message: "Missing orphanId" }, { status: 400 });
+  }
+  if (action !== "refund" && action !== "dismiss") {
+    return NextResponse.json({ ok: false, message: "action must be refund or dismiss" }, { status: 400 });
+  }
+  const res = action === "refund" ? await refundOrphanPayment(orphanId) : dismissOrphanPayment(orphanId);
+  return NextResponse.json(res, { status: res.ok ? 200 : 409 });
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getPaymentInfo } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
 
 export async function GET(req: Request) {
   const url = new URL(req.url);
@@ -12,7 +13,15 @@ export async function GET(req: Request) {
     );
   }
 
-  const result = getPaymentInfo(sessionId);
+  const machine = resolveMachine(url.searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json(
+      { ok: false, message: "Unknown machine" },
+      { status: 404 }
+    );
+  }
+
+  const result = getPaymentInfo(machine.id, sessionId);
   
   if (!result.ok) {
     return NextResponse.json(
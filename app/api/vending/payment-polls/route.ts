@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { listPollQueue } from "@/lib/paymentPoller";
+
+// Operator-only: the open orders the payment poller is checking, soonest first
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json({ ok: true, queue: listPollQueue() });
+}
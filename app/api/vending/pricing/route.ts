@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { readCatalog } from "@/lib/catalog";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { quotePrice, readPricingPolicy, setPriceRule, type PriceRule } from "@/lib/pricing";
+
+const RULE_FIELDS = [
+  "listPrice",
+  "minMargin",
+  "maxDiscount",
+  "nearExpiryDays",
+  "nearExpiryMaxDiscount",
+  "nearExpiryMinMargin",
+] as const;
+
+// Operator-only: the pricing policy, and what each catalog product may be
+// sold for on the machine given its current stock and costs.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const machine = resolveMachine(new URL(req.url).searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const [policy, catalog] = await Promise.all([readPricingPolicy(), readCatalog()]);
+    const quotes = await Promise.all(catalog.products.map((p) => quotePrice(machine.id, p.sku)));
+    return NextResponse.json({ ok: true, policy, quotes });
+  } catch (error) {
+    console.error("[PRICING_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to read pricing" }, { status: 500 });
+  }
+}
+
+// Operator-only: replaces the rule for a product (sku), a category, or the
+// defaults when neither is given. rule: null removes a product or category rule.
+export async function PUT(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { sku, category, rule } = body as { sku?: string; category?: string; rule?: Record<string, unknown> | null };
+  if (rule === undefined || (rule !== null && typeof rule !== "object")) {
+    return NextResponse.json({ ok: false, message: "Missing rule" }, { status: 400 });
+  }
+  if (sku !== undefined && category !== undefined) {
+    return NextResponse.json({ ok: false, message: "Give either sku or category, not both" }, { status: 400 });
+  }
+  const catalog = await readCatalog();
+  if (sku !== undefined && !catalog.get(sku)) {
+    return NextResponse.json({ ok: false, message: `Unknown product ${sku}` }, { status: 400 });
+  }
+  if (category !== undefined && !catalog.products.some((p) => p.category === category)) {
+    return NextResponse.json({ ok: false, message: `Unknown category ${category}` }, { status: 400 });
+  }
+  const fields: PriceRule | null = rule
+    ? Object.fromEntries(RULE_FIELDS.filter((f) => rule[f] !== undefined && rule[f] !== null).map((f) => [f, rule[f]]))
+    : null;
+  try {
+    const res = await setPriceRule({ sku, category }, fields);
+    return NextResponse.json(res, { status: res.ok ? 200 : 400 });
+  } catch (error) {
+    console.error("[PRICING_WRITE_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to update pricing" }, { status: 500 });
+  }
+}
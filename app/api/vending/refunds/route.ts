@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { listRefunds, retryRefund, toRefundView, type RefundStatus } from "@/lib/refunds";
+
+// Refunds on a machine, newest first. With sessionId, anyone holding the
+// session's link can see that session's refunds; the full list, filterable by
+// status, is operator-only.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const machine = resolveMachine(params.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const sessionId = params.get("sessionId");
+  if (sessionId) {
+    const refunds = listRefunds({ machineId: machine.id, sessionId }).map(toRefundView);
+    return NextResponse.json({ ok: true, refunds });
+  }
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const status = (params.get("status") as RefundStatus | null) || undefined;
+  return NextResponse.json({ ok: true, refunds: listRefunds({ machineId: machine.id, status }) });
+}
+
+// Operator-only: tries a refund that gave up again
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { refundId } = body as { refundId?: string };
+  if (!refundId) {
+    return NextResponse.json({ ok: false, message: "Missing refundId" }, { status: 400 });
+  }
+  const res = retryRefund(refundId);
+  return NextResponse.json(res, { status: res.ok ? 200 : 409 });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { getSnapshot, resetToIdle } from "@/lib/vendingState";
+
+// Operator-only: forces a stuck machine back to IDLE, ending its session. With
+// sessionId, only resets if that session is still the current one, so a
+// stale dashboard cannot end the next customer's session.
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const { machineId, sessionId } = body as { machineId?: string; sessionId?: string };
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  if (sessionId && getSnapshot(machine.id).sessionId !== sessionId) {
+    return NextResponse.json({ ok: false, message: "Wrong session" }, { status: 409 });
+  }
+  resetToIdle(machine.id, "operator");
+  return NextResponse.json({ ok: true, snapshot: getSnapshot(machine.id) });
+}
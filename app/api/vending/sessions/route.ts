@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { listFailures, listRecentSessions } from "@/lib/sessionReview";
+
+const DEFAULT_LIMIT = 50;
+
+// Operator-only: recent sessions on a machine and the payment and dispense
+// failures among them, newest first. Filters: from (epoch ms) and limit.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const machine = resolveMachine(params.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const from = params.get("from") ? Number(params.get("from")) : undefined;
+  const limit = params.get("limit") ? Math.max(0, Number(params.get("limit"))) : DEFAULT_LIMIT;
+  if ((from !== undefined && !Number.isFinite(from)) || !Number.isFinite(limit)) {
+    return NextResponse.json({ ok: false, message: "from and limit must be numbers" }, { status: 400 });
+  }
+  try {
+    const [sessions, failures] = await Promise.all([
+      listRecentSessions(machine.id, { from, limit }),
+      listFailures(machine.id, { from, limit }),
+    ]);
+    return NextResponse.json({ ok: true, sessions, failures });
+  } catch (error) {
+    console.error("[TRANSACTIONS_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to read sessions" }, { status: 500 });
+  }
+}
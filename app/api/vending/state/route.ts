@@ -1,20 +1,26 @@
 import { NextResponse } from "next/server";
 import { getSnapshot } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
 import os from "os";
 
-let lastLogTs = 0;
+const lastLogTs = new Map<string, number>();
 
 export async function GET(req: Request) {
-  const snap = getSnapshot();
+  const machine = resolveMachine(new URL(req.url).searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const snap = getSnapshot(machine.id);
   try {
     if (snap.state === "IDLE" && snap.sessionId) {
       const headers = new Headers(req.headers);
       const host = headers.get("x-forwarded-host") || headers.get("host") || "localhost:3000";
       const proto = headers.get("x-forwarded-proto") || (host.includes("localhost") ? "http" : "https");
-      const baseUrl = `${proto}://${host}`;
-      const url = `${baseUrl}/claim?sessionId=${encodeURIComponent(snap.sessionId)}`;
+      const baseUrl = machine.displayUrl || `${proto}://${host}`;
+      const query = `machineId=${encodeURIComponent(machine.id)}&sessionId=${encodeURIComponent(snap.sessionId)}`;
+      const url = `${baseUrl}/claim?${query}`;
       const now = Date.now();
-      if (now - lastLogTs > 2000) {
+      if (now - (lastLogTs.get(machine.id) ?? 0) > 2000) {
         // eslint-disable-next-line no-console
         console.log("[DEBUG] Claim/Chat URL:", url);
         // Also print local network candidates to help copy on another device
@@ -24,18 +30,17 @@ export async function GET(req: Request) {
           for (const name of Object.keys(ifaces)) {
             for (const info of ifaces[name] || []) {
               if (info && info.family === "IPv4" && !info.internal) {
-                addrs.push(`http://${info.address}:3000/claim?sessionId=${encodeURIComponent(snap.sessionId)}`);
+                addrs.push(`http://${info.address}:3000/claim?${query}`);
               }
             }
           }
         } catch {}
-        lastLogTs = now;
+        lastLogTs.set(machine.id, now);
       }
     }
   } catch {
     // ignore logging errors
   }
-  return NextResponse.json(snap, { status: 200 });
+  return NextResponse.json({ ...snap, displayUrl: machine.displayUrl }, { status: 200 });
 }
 
-
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { queryTransactions, summarizeTransactions, type TransactionType } from "@/lib/transactions";
+
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const asNumber = Number(value);
+  if (Number.isFinite(asNumber)) return asNumber;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Operator-only query over the transaction ledger. Filters: machineId,
+// sessionId, orderId, type, from/to (epoch ms or ISO date) and limit.
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const limit = params.get("limit");
+  try {
+    const records = await queryTransactions({
+      machineId: params.get("machineId") || undefined,
+      sessionId: params.get("sessionId") || undefined,
+      orderId: params.get("orderId") || undefined,
+      type: (params.get("type") as TransactionType | null) || undefined,
+      from: parseTime(params.get("from")),
+      to: parseTime(params.get("to")),
+      limit: limit ? Math.max(0, Number(limit)) : undefined,
+    });
+    return NextResponse.json({ ok: true, summary: summarizeTransactions(records), records });
+  } catch (error) {
+    console.error("[TRANSACTIONS_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to read transactions" }, { status: 500 });
+  }
+}
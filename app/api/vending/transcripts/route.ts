@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { resolveMachine } from "@/lib/machines";
+import { isOperatorRequest } from "@/lib/operatorAuth";
+import { readTranscript } from "@/lib/transcripts";
+
+// Operator-only: the chat transcript of a session, as last sent by the client
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ ok: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const sessionId = params.get("sessionId");
+  if (!sessionId) {
+    return NextResponse.json({ ok: false, message: "Missing sessionId" }, { status: 400 });
+  }
+  const machine = resolveMachine(params.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  try {
+    const transcript = await readTranscript(machine.id, sessionId);
+    if (!transcript) {
+      return NextResponse.json({ ok: false, message: "No transcript for that session" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, transcript });
+  } catch (error) {
+    console.error("[TRANSCRIPT_READ_ERROR]", error);
+    return NextResponse.json({ ok: false, message: "Failed to read transcript" }, { status: 500 });
+  }
+}
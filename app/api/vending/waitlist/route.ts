@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getWaitlistPosition, joinWaitlist, leaveWaitlist } from "@/lib/vendingState";
+import { resolveMachine } from "@/lib/machines";
+
+// Position and estimated wait for a ticket, polled by the claim page
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const ticket = url.searchParams.get("ticket");
+  if (!ticket) {
+    return NextResponse.json({ ok: false, message: "Missing ticket" }, { status: 400 });
+  }
+  const machine = resolveMachine(url.searchParams.get("machineId"));
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const res = getWaitlistPosition(machine.id, ticket);
+  return NextResponse.json(res, { status: res.ok ? 200 : 404 });
+}
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const { machineId, name } = body as { machineId?: string; name?: string };
+  if (!name) {
+    return NextResponse.json({ ok: false, message: "Missing name" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const res = joinWaitlist(machine.id, name);
+  return NextResponse.json(res, { status: res.ok ? 200 : 409 });
+}
+
+export async function DELETE(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const { machineId, ticket } = body as { machineId?: string; ticket?: string };
+  if (!ticket) {
+    return NextResponse.json({ ok: false, message: "Missing ticket" }, { status: 400 });
+  }
+  const machine = resolveMachine(machineId);
+  if (!machine) {
+    return NextResponse.json({ ok: false, message: "Unknown machine" }, { status: 404 });
+  }
+  const res = leaveWaitlist(machine.id, ticket);
+  return NextResponse.json(res, { status: res.ok ? 200 : 404 });
+}
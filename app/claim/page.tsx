@@ -4,6 +4,7 @@ import { Suspense, useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useChat, Chat } from "@ai-sdk/react";
 import { DefaultChatTransport } from "ai";
+import { useVendingSnapshot } from "@/lib/useVendingSnapshot";
 
 type VendingStateType = "IDLE" | "CHATTING" | "PAYMENT_PENDING" | "DISPENSING" | "DONE";
 
@@ -12,12 +13,14 @@ interface PaymentInfo {
   qrCodeUrl: string | null;
   qrCodeDataUrl: string | null;
   amount: number | null;
+  quantity: number | null;
   description: string | null;
   createdAt: number | null;
   paymentExpiresAt: number | null;
 }
 
 interface Snapshot {
+  machineId: string;
   state: VendingStateType;
   sessionId: string;
   lockedByName: string | null;
@@ -25,49 +28,143 @@ interface Snapshot {
   chatExpiresAt: number | null;
   dispensingExpiresAt: number | null;
   paymentInfo: PaymentInfo;
+  timeouts: { chatMs: number; paymentMs: number; dispensingMs: number };
+  waitlist: { length: number; reservedFor: string | null; reservationExpiresAt: number | null };
 }
 
+interface WaitStatus {
+  position: number;
+  estimatedWaitMs: number;
+  reserved: boolean;
+  reservationExpiresAt?: number | null;
+  sessionId?: string;
+}
+
+interface Refund {
+  id: string;
+  amount: number;
+  units: number;
+  status: "pending" | "completed" | "failed";
+}
+
+const CLAIMED_SESSION_KEY = "vending:claimedSessionId";
+const REFUND_POLL_MS = 5000;
+// Per machine, so a customer can wait in line at more than one
+const WAITLIST_TICKET_KEY = "vending:waitlistTicket";
+
 function ClaimInner() {
   const params = useSearchParams();
   const router = useRouter();
+  const machineId = params.get("machineId") ?? "";
   const sessionId = params.get("sessionId") ?? "";
   const [name, setName] = useState<string>("");
-  const [snap, setSnap] = useState<Snapshot | null>(null);
+  const snap = useVendingSnapshot<Snapshot>(machineId);
   const [error, setError] = useState<string>("");
   const listRef = useRef<HTMLDivElement | null>(null);
   const [nowMs, setNowMs] = useState<number>(Date.now());
 
+  // The server only accepts commands from the browser holding the controller
+  // cookie; remember which session this tab claimed so the UI follows suit.
+  const [claimedSessionId, setClaimedSessionId] = useState<string>("");
+  useEffect(() => {
+    setClaimedSessionId(window.sessionStorage.getItem(CLAIMED_SESSION_KEY) ?? "");
+  }, []);
+
+  // Waitlist ticket handed out when joining the line while the machine is busy
+  const ticketKey = `${WAITLIST_TICKET_KEY}:${machineId}`;
+  const [ticket, setTicket] = useState<string>("");
+  const [waitStatus, setWaitStatus] = useState<WaitStatus | null>(null);
+  useEffect(() => {
+    setTicket(window.sessionStorage.getItem(ticketKey) ?? "");
+  }, [ticketKey]);
+
+  // Re-check our place in line whenever the machine changes
   useEffect(() => {
-    let stopped = false;
-    async function poll() {
-      try {
-        const res = await fetch("/api/vending/state", { cache: "no-store" });
-        if (!res.ok) throw new Error("state fetch failed");
-        const data = (await res.json()) as Snapshot;
-        if (!stopped) setSnap(data);
-      } catch {
-        // ignore
-      } finally {
-        if (!stopped) setTimeout(poll, 1000);
-      }
+    if (!ticket) {
+      setWaitStatus(null);
+      return;
     }
-    poll();
+    let cancelled = false;
+    const query = `machineId=${encodeURIComponent(machineId)}&ticket=${encodeURIComponent(ticket)}`;
+    fetch(`/api/vending/waitlist?${query}`, { cache: "no-store" })
+      .then(async (res) => {
+        const j = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (!res.ok) {
+          // Our turn passed or the ticket is unknown
+          window.sessionStorage.removeItem(ticketKey);
+          setTicket("");
+          setWaitStatus(null);
+          if (res.status === 404) setError("Your turn in line has passed. You can join again.");
+          return;
+        }
+        setWaitStatus(j as WaitStatus);
+      })
+      .catch(() => {});
     return () => {
-      stopped = true;
+      cancelled = true;
     };
-  }, []);
+  }, [ticket, ticketKey, machineId, snap?.updatedAt]);
+
+  // When our reservation comes up, follow it to the session we may claim
+  useEffect(() => {
+    if (!waitStatus?.reserved || !waitStatus.sessionId || waitStatus.sessionId === sessionId) return;
+    const query = `machineId=${encodeURIComponent(machineId)}&sessionId=${encodeURIComponent(waitStatus.sessionId)}`;
+    router.replace(`/claim?${query}`);
+  }, [waitStatus, sessionId, machineId, router]);
 
-  const canControl = useMemo(() => snap && snap.sessionId === sessionId, [snap, sessionId]);
+  const reservedForMe = !!waitStatus?.reserved;
+
+  // Money coming back for items paid for in this session but never dispensed.
+  // Checked on every machine change and, while one is in progress, on a timer,
+  // so it still shows after the session has ended.
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const refundPending = refunds.some((r) => r.status === "pending");
+  useEffect(() => {
+    if (!sessionId || claimedSessionId !== sessionId) return;
+    let cancelled = false;
+    const query = `machineId=${encodeURIComponent(machineId)}&sessionId=${encodeURIComponent(sessionId)}`;
+    const load = () =>
+      fetch(`/api/vending/refunds?${query}`, { cache: "no-store" })
+        .then((res) => res.json())
+        .then((j) => {
+          if (!cancelled && Array.isArray(j.refunds)) setRefunds(j.refunds as Refund[]);
+        })
+        .catch(() => {});
+    void load();
+    const timer = refundPending ? window.setInterval(load, REFUND_POLL_MS) : null;
+    return () => {
+      cancelled = true;
+      if (timer) window.clearInterval(timer);
+    };
+  }, [machineId, sessionId, claimedSessionId, snap?.updatedAt, refundPending]);
+
+  const canControl = useMemo(
+    () =>
+      snap &&
+      snap.sessionId === sessionId &&
+      ((snap.state === "IDLE" && (!snap.waitlist.reservedFor || reservedForMe)) || claimedSessionId === sessionId),
+    [snap, sessionId, claimedSessionId, reservedForMe]
+  );
+
+  // Someone else is using (or holds the next turn on) the machine
+  const canJoinWaitlist = !!snap && !canControl && (snap.state !== "IDLE" || !!snap.waitlist.reservedFor);
+
+  useEffect(() => {
+    if (!snap?.waitlist.reservationExpiresAt) return;
+    const id = window.setInterval(() => setNowMs(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [snap?.waitlist.reservationExpiresAt]);
   
   // Use AI SDK 5 useChat hook
   const chat = useMemo(() => {
     if (!sessionId) return null;
     return new Chat({
       transport: new DefaultChatTransport({
-        api: `/api/vending/chat?sessionId=${encodeURIComponent(sessionId)}`,
+        api: `/api/vending/chat?machineId=${encodeURIComponent(machineId)}&sessionId=${encodeURIComponent(sessionId)}`,
       }),
     });
-  }, [sessionId]);
+  }, [machineId, sessionId]);
   
   const { messages, sendMessage, status } = useChat(chat ? {
     chat: chat,
@@ -112,7 +209,7 @@ function ClaimInner() {
   const progressRatio = useMemo(() => {
     if (!snap || snap.state !== "CHATTING" || !snap.chatExpiresAt) return 0;
     const remaining = Math.max(0, snap.chatExpiresAt - nowMs);
-    const ratio = remaining / 60000; // 60s TTL to match server
+    const ratio = remaining / snap.timeouts.chatMs;
     return Math.max(0, Math.min(1, ratio));
   }, [snap, nowMs]);
 
@@ -120,7 +217,7 @@ function ClaimInner() {
     if (!snap || !snap.paymentInfo.paymentExpiresAt) return 0;
     if (snap.state !== "PAYMENT_PENDING") return 0;
     const remaining = Math.max(0, snap.paymentInfo.paymentExpiresAt - nowMs);
-    const ratio = remaining / 60000; // 60s TTL
+    const ratio = remaining / snap.timeouts.paymentMs;
     return Math.max(0, Math.min(1, ratio));
   }, [snap, nowMs]);
 
@@ -129,13 +226,49 @@ function ClaimInner() {
     const res = await fetch("/api/vending/claim", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ sessionId, name: name || "Guest" }),
+      body: JSON.stringify({
+        machineId: machineId || undefined,
+        sessionId,
+        name: name || "Guest",
+        waitlistTicket: ticket || undefined,
+      }),
     });
     if (!res.ok) {
       const j = await res.json().catch(() => ({}));
       setError(j.message || "Failed to claim. It might be busy." );
       return;
     }
+    window.sessionStorage.setItem(CLAIMED_SESSION_KEY, sessionId);
+    setClaimedSessionId(sessionId);
+    window.sessionStorage.removeItem(ticketKey);
+    setTicket("");
+  }
+
+  async function onJoinWaitlist() {
+    setError("");
+    const res = await fetch("/api/vending/waitlist", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ machineId: machineId || undefined, name: name || "Guest" }),
+    });
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok || !j.ticket) {
+      setError(j.message || "Could not join the line.");
+      return;
+    }
+    window.sessionStorage.setItem(ticketKey, j.ticket);
+    setTicket(j.ticket);
+    setWaitStatus(j as WaitStatus);
+  }
+
+  async function onLeaveWaitlist() {
+    await fetch("/api/vending/waitlist", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ machineId: machineId || undefined, ticket }),
+    }).catch(() => {});
+    window.sessionStorage.removeItem(ticketKey);
+    setTicket("");
   }
 
 
@@ -175,11 +308,55 @@ function ClaimInner() {
         </div>
       )}
       
-      {!canControl && (
+      {refunds.length > 0 && (
+        <div className="flex flex-col gap-1 w-full max-w-sm border border-white rounded p-3 text-white">
+          {refunds.map((r) => (
+            <div key={r.id} className="text-sm">
+              {r.status === "completed" && `Refunded $${r.amount} for ${r.units} item(s) that could not be dispensed.`}
+              {r.status === "pending" && `Refunding $${r.amount} for ${r.units} item(s) that could not be dispensed…`}
+              {r.status === "failed" && `We could not refund $${r.amount} automatically. Staff have been notified and will return it.`}
+            </div>
+          ))}
+        </div>
+      )}
+      {!canControl && !canJoinWaitlist && (
         <div className="text-red-600">This link is no longer valid or machine busy.</div>
       )}
+      {canJoinWaitlist && ticket && waitStatus && !waitStatus.reserved && (
+        <div className="flex flex-col gap-3 w-full max-w-sm">
+          <div className="text-2xl text-white font-bold">You&apos;re #{waitStatus.position} in line</div>
+          <div className="text-white">
+            Estimated wait: about {Math.max(1, Math.round(waitStatus.estimatedWaitMs / 60_000))} min
+          </div>
+          <div className="text-gray-400 text-sm">Keep this page open. You&apos;ll get a short window to start when it&apos;s your turn.</div>
+          <button className="border border-white text-white rounded p-3" onClick={onLeaveWaitlist}>Leave the line</button>
+        </div>
+      )}
+      {canJoinWaitlist && !ticket && (
+        <div className="flex flex-col gap-3 w-full max-w-sm">
+          <div className="text-white">
+            {snap?.state === "IDLE"
+              ? `The machine is reserved for ${snap.waitlist.reservedFor}.`
+              : "The machine is in use right now."}
+            {snap && snap.waitlist.length > 0 && ` ${snap.waitlist.length} waiting.`}
+          </div>
+          <input
+            className="border border-white rounded p-3 text-white placeholder-gray-400 bg-transparent focus:outline-none focus:ring-2 focus:ring-white/60"
+            placeholder="Your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button className="bg-black text-white rounded p-3" onClick={onJoinWaitlist}>Join the line</button>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+      )}
       {snap?.state === "IDLE" && canControl && (
         <div className="flex flex-col gap-3 w-full max-w-sm">
+          {reservedForMe && snap.waitlist.reservationExpiresAt && (
+            <div className="text-white font-bold">
+              It&apos;s your turn! Start within {Math.max(0, Math.ceil((snap.waitlist.reservationExpiresAt - nowMs) / 1000))}s.
+            </div>
+          )}
           <input
             className="border border-white rounded p-3 text-white placeholder-gray-400 bg-transparent focus:outline-none focus:ring-2 focus:ring-white/60"
             placeholder="Your name"
@@ -259,7 +436,7 @@ function ClaimInner() {
       )}
       {snap?.state === "DISPENSING" && canControl && (
         <div className="flex flex-col gap-3 w-full max-w-sm">
-          <div>Dispensing (placeholder)...</div>
+          <div>Dispensing...</div>
         </div>
       )}
       {snap?.state === "DONE" && canControl && (
@@ -0,0 +1,100 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+interface MockOrder {
+  id: string;
+  status: "pending" | "paid" | "cancelled" | "expired" | "rejected" | "refunded";
+  amount: number;
+  refunded: number;
+  description: string;
+  machineId: string;
+  externalReference: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+type Settlement = "paid" | "expired" | "rejected";
+
+const REFRESH_MS = 2000;
+
+// Stands in for the customer's payment app when PAYMENT_PROVIDER=mock: the
+// QR on the kiosk opens this page for its order.
+function MockPayInner() {
+  const params = useSearchParams();
+  const focusId = params.get("orderId") ?? "";
+  const [orders, setOrders] = useState<MockOrder[]>([]);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/payments/mock", { cache: "no-store" });
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(j.message || "Could not load mock orders");
+      return;
+    }
+    setError("");
+    setOrders(j.orders as MockOrder[]);
+  }, []);
+
+  useEffect(() => {
+    void load();
+    const timer = setInterval(() => void load(), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  async function onSettle(orderId: string, status: Settlement) {
+    const res = await fetch("/api/payments/mock", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId, status }),
+    });
+    const j = await res.json().catch(() => ({}));
+    setError(res.ok ? "" : j.message || "Could not settle the order");
+    void load();
+  }
+
+  const shown = focusId ? orders.filter((o) => o.id === focusId) : orders;
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center p-6 gap-4 text-white">
+      <div className="text-2xl font-bold">Mock payments</div>
+      <div className="text-gray-400 text-sm">Nothing is charged. Settling an order notifies the machine as a real payment would.</div>
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+      {!error && shown.length === 0 && <div className="text-gray-400">No orders yet.</div>}
+      {shown.map((order) => (
+        <div key={order.id} className="w-full max-w-md border border-white rounded p-4 flex flex-col gap-2">
+          <div className="text-xl font-bold">${order.amount}</div>
+          <div>{order.description}</div>
+          <div className="text-xs text-gray-400 font-mono">{order.id}</div>
+          <div className="text-sm">
+            Machine {order.machineId} · session {order.externalReference}
+          </div>
+          <div className="text-sm">
+            Status: <span className="font-bold">{order.status}</span>
+            {order.refunded > 0 && ` · refunded $${order.refunded}`}
+          </div>
+          {order.status === "pending" && (
+            <div className="flex gap-2">
+              <button className="bg-blue-600 text-white rounded p-2 flex-1" onClick={() => void onSettle(order.id, "paid")}>Pay</button>
+              <button className="border border-white rounded p-2" onClick={() => void onSettle(order.id, "rejected")}>Reject</button>
+              <button className="border border-white rounded p-2" onClick={() => void onSettle(order.id, "expired")}>Expire</button>
+            </div>
+          )}
+        </div>
+      ))}
+      {focusId && orders.length > shown.length && (
+        <a href="/mock-pay" className="underline text-gray-300 text-sm">Show all orders</a>
+      )}
+    </div>
+  );
+}
+
+export default function MockPayPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen w-full flex items-center justify-center">Loading…</div>}>
+      <MockPayInner />
+    </Suspense>
+  );
+}
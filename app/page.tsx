@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import QRCode from "qrcode";
+import { useVendingSnapshot } from "@/lib/useVendingSnapshot";
 
 type VendingStateType = "IDLE" | "CHATTING" | "PAYMENT_PENDING" | "DISPENSING" | "DONE";
 
@@ -10,12 +12,15 @@ interface PaymentInfo {
   qrCodeUrl: string | null;
   qrCodeDataUrl: string | null;
   amount: number | null;
+  quantity: number | null;
   description: string | null;
   createdAt: number | null;
   paymentExpiresAt: number | null;
 }
 
 interface Snapshot {
+  machineId: string;
+  displayUrl?: string | null;
   state: VendingStateType;
   sessionId: string;
   lockedByName: string | null;
@@ -23,37 +28,23 @@ interface Snapshot {
   chatExpiresAt?: number | null;
   dispensingExpiresAt?: number | null;
   paymentInfo: PaymentInfo;
+  timeouts: { chatMs: number; paymentMs: number; dispensingMs: number };
+  waitlist: { length: number; reservedFor: string | null; reservationExpiresAt: number | null };
 }
 
-export default function Home() {
-  const [snap, setSnap] = useState<Snapshot | null>(null);
+function KioskInner() {
+  const params = useSearchParams();
+  // The kiosk display is bound to one machine; without a param the server picks the default
+  const machineId = params.get("machineId") ?? "";
+  const snap = useVendingSnapshot<Snapshot>(machineId);
   const [qrDataUrl, setQrDataUrl] = useState<string>("");
   const lastSessionRef = useRef<string>("");
   const [nowMs, setNowMs] = useState<number>(Date.now());
 
-  useEffect(() => {
-    let stopped = false;
-    async function poll() {
-      try {
-        const res = await fetch("/api/vending/state", { cache: "no-store" });
-        if (!res.ok) throw new Error("state fetch failed");
-        const data = (await res.json()) as Snapshot;
-        if (!stopped) setSnap(data);
-      } catch {
-        // swallow
-      } finally {
-        if (!stopped) setTimeout(poll, 1000);
-      }
-    }
-    poll();
-    return () => {
-      stopped = true;
-    };
-  }, []);
-
   const claimUrl = useMemo(() => {
     if (!snap) return "";
-    const url = new URL(window.location.origin + "/claim");
+    const url = new URL((snap.displayUrl || window.location.origin) + "/claim");
+    url.searchParams.set("machineId", snap.machineId);
     url.searchParams.set("sessionId", snap.sessionId);
     return url.toString();
   }, [snap]);
@@ -103,10 +94,17 @@ export default function Home() {
     };
   }, [snap?.state, snap?.paymentInfo.paymentExpiresAt]);
 
+  // Countdown for the next-in-line reservation notice
+  useEffect(() => {
+    if (!snap?.waitlist.reservationExpiresAt) return;
+    const id = window.setInterval(() => setNowMs(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [snap?.waitlist.reservationExpiresAt]);
+
   const curtainRatio = useMemo(() => {
     if (!snap || snap.state !== "CHATTING" || !snap.chatExpiresAt) return 0;
     const remaining = Math.max(0, snap.chatExpiresAt - nowMs);
-    const ratio = 1 - Math.max(0, Math.min(1, remaining / 60000));
+    const ratio = 1 - Math.max(0, Math.min(1, remaining / snap.timeouts.chatMs));
     return ratio; // 0 => all white, 1 => all black
   }, [snap, nowMs]);
 
@@ -114,7 +112,7 @@ export default function Home() {
     if (!snap || !snap.paymentInfo.paymentExpiresAt) return 0;
     if (snap.state !== "PAYMENT_PENDING") return 0;
     const remaining = Math.max(0, snap.paymentInfo.paymentExpiresAt - nowMs);
-    const ratio = 1 - Math.max(0, Math.min(1, remaining / 60000)); // 60s TTL
+    const ratio = 1 - Math.max(0, Math.min(1, remaining / snap.timeouts.paymentMs));
     return ratio; // 0 => all white, 1 => all black
   }, [snap, nowMs]);
 
@@ -146,6 +144,13 @@ export default function Home() {
       )}
       {snap?.state === "IDLE" && (
         <div className="flex flex-col items-center gap-4">
+          {snap.waitlist.reservedFor && snap.waitlist.reservationExpiresAt && (
+            <div className="text-lg text-white text-center">
+              Reserved for {snap.waitlist.reservedFor} ·{" "}
+              {Math.max(0, Math.ceil((snap.waitlist.reservationExpiresAt - nowMs) / 1000))}s
+              {snap.waitlist.length > 0 && <div className="text-sm text-gray-400">{snap.waitlist.length} more in line</div>}
+            </div>
+          )}
           {snap.paymentInfo.qrCodeDataUrl ? (
             <>
               <div className="text-xl text-white">Waiting for payment ${snap.paymentInfo.amount}</div>
@@ -192,12 +197,29 @@ export default function Home() {
             {labelForState(snap)}
           </div>
           <div className="text-gray-400">Session {snap.sessionId.slice(-6)}</div>
+          {qrDataUrl && (
+            <div className="flex flex-col items-center gap-1 mt-4">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={qrDataUrl} alt="Join the line QR Code" className="w-[140px] h-[140px] bg-white p-1 rounded" />
+              <div className="text-sm text-gray-400">
+                Scan to join the line{snap.waitlist.length > 0 ? ` · ${snap.waitlist.length} waiting` : ""}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
+export default function Home() {
+  return (
+    <Suspense fallback={<div className="min-h-screen w-full bg-black" />}>
+      <KioskInner />
+    </Suspense>
+  );
+}
+
 function labelForState(s: Snapshot): string {
   switch (s.state) {
     case "CHATTING":
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // The saved state lives on disk, which only the Node.js runtime can read;
+  // nothing should start during a build either
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.NEXT_PHASE === "phase-production-build") return;
+  const { resumeMachines } = await import("@/lib/vendingState");
+  resumeMachines();
+}
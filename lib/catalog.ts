@@ -0,0 +1,124 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { nextUnits, pickSlots, readStockLevels, type StockLevel } from "@/lib/inventory";
+
+// A sellable product, independent of where it is loaded. Any number of slots,
+// on any machine, can hold the same SKU.
+export type Product = {
+  sku: string;
+  name: string;
+  barcode: string | null;
+  category: string | null;
+  // Free text, e.g. "500 ml"
+  size: string | null;
+  // URL or path under public/
+  image: string | null;
+  tags: string[];
+};
+
+export interface Catalog {
+  products: Product[];
+  get(sku: string): Product | null;
+}
+
+// Stock of one product across a machine's slots
+export type ProductStock = {
+  sku: string;
+  product: Product | null;
+  // Catalog name, or the slot description for SKUs missing from the catalog
+  name: string;
+  available: number;
+  // Weighted by available units across slots
+  avg_unit_price: number | null;
+  // Slots holding the product, in the order they are emptied
+  slots: string[];
+  // Best-before date of the next unit to be sold, if tracked
+  nextExpiry: string | null;
+};
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const CATALOG_PATH = path.resolve(DATA_DIR, "catalog.json");
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value : null;
+}
+
+function toProduct(entry: Record<string, unknown>): Product | null {
+  const sku = optionalString(entry.sku);
+  const name = optionalString(entry.name);
+  if (!sku || !name) return null;
+  return {
+    sku,
+    name,
+    barcode: optionalString(entry.barcode),
+    category: optionalString(entry.category),
+    size: optionalString(entry.size),
+    image: optionalString(entry.image),
+    tags: Array.isArray(entry.tags) ? entry.tags.filter((t): t is string => typeof t === "string") : [],
+  };
+}
+
+// Reads data/catalog.json on every call so operator edits apply without a
+// restart. A missing file is an empty catalog; entries without a SKU or name
+// are skipped with a warning.
+export async function readCatalog(): Promise<Catalog> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(CATALOG_PATH, "utf8");
+  } catch {
+    return buildCatalog([]);
+  }
+  const parsed = JSON.parse(raw) as { products?: Record<string, unknown>[] };
+  const products: Product[] = [];
+  for (const entry of parsed.products ?? []) {
+    const product = typeof entry === "object" && entry !== null ? toProduct(entry) : null;
+    if (!product) {
+      console.warn("[CATALOG_INVALID_PRODUCT]", entry);
+      continue;
+    }
+    if (products.some((p) => p.sku === product.sku)) {
+      console.warn("[CATALOG_DUPLICATE_SKU]", product.sku);
+      continue;
+    }
+    products.push(product);
+  }
+  return buildCatalog(products);
+}
+
+function buildCatalog(products: Product[]): Catalog {
+  const bySku = new Map(products.map((p) => [p.sku, p]));
+  return { products, get: (sku) => bySku.get(sku) ?? null };
+}
+
+// Groups a machine's sellable stock by SKU. Slots without a SKU are not
+// offered; an operator has to assign one first.
+export async function readProductStock(machineId: string): Promise<ProductStock[]> {
+  const [catalog, levels] = await Promise.all([readCatalog(), readStockLevels(machineId)]);
+  return summarizeProductStock(catalog, levels);
+}
+
+export function summarizeProductStock(catalog: Catalog, levels: Record<string, StockLevel>): ProductStock[] {
+  const bySku = new Map<string, { available: number; cost: number; costed: number; description: string }>();
+  for (const level of Object.values(levels)) {
+    if (!level.sku) continue;
+    const group = bySku.get(level.sku) ?? { available: 0, cost: 0, costed: 0, description: level.description };
+    group.available += level.available;
+    if (level.avg_unit_price !== undefined) {
+      group.cost += level.avg_unit_price * level.available;
+      group.costed += level.available;
+    }
+    bySku.set(level.sku, group);
+  }
+  return [...bySku.entries()].map(([sku, group]) => {
+    const product = catalog.get(sku);
+    return {
+      sku,
+      product,
+      name: product?.name ?? group.description,
+      available: group.available,
+      avg_unit_price: group.costed > 0 ? Math.round((group.cost / group.costed) * 100) / 100 : null,
+      slots: pickSlots(levels, sku),
+      nextExpiry: nextUnits(levels, sku, 1)[0]?.expiresAt ?? null,
+    };
+  });
+}
@@ -0,0 +1,35 @@
+import type { NextResponse } from "next/server";
+
+// Server-to-server calls (e.g. the chat payment tool) pass the token in this
+// header; browsers carry it in an HttpOnly cookie set by the claim route.
+export const CONTROLLER_TOKEN_HEADER = "x-controller-token";
+
+const COOKIE_PREFIX = "vending_ctl_";
+
+function cookieName(machineId: string): string {
+  return `${COOKIE_PREFIX}${encodeURIComponent(machineId)}`;
+}
+
+export function readControllerToken(req: Request, machineId: string): string | null {
+  const header = req.headers.get(CONTROLLER_TOKEN_HEADER);
+  if (header) return header;
+  const cookies = req.headers.get("cookie");
+  if (!cookies) return null;
+  const name = cookieName(machineId);
+  for (const part of cookies.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+export function setControllerCookie(res: NextResponse, req: Request, machineId: string, token: string): void {
+  // Kiosks are often reached over plain http on the local network
+  const proto = req.headers.get("x-forwarded-proto") || new URL(req.url).protocol.replace(":", "");
+  res.cookies.set(cookieName(machineId), token, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: proto === "https",
+    path: "/",
+  });
+}
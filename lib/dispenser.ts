@@ -0,0 +1,72 @@
+import { getMachine } from "@/lib/machines";
+import { createSimulatedDispenser, parseSimulatorScript } from "@/lib/dispenserSimulator";
+import { createSerialDispenser } from "@/lib/serialDispenser";
+import { processSingleton } from "@/lib/processSingleton";
+
+export type DispenserStatus = "READY" | "BUSY" | "FAULT" | "OFFLINE";
+
+export type DispenserFaultCode = "JAM" | "TIMEOUT" | "EMPTY" | "COMM_ERROR" | "UNKNOWN";
+
+export interface DispenserFault {
+  code: DispenserFaultCode;
+  message: string;
+  slot: string | null;
+  at: number;
+}
+
+export type DispenseResult = { ok: true } | { ok: false; fault: DispenserFault };
+
+export type FaultListener = (fault: DispenserFault) => void;
+
+// Hardware abstraction for the vend mechanism. dispense() resolves once the
+// machine confirms the item dropped or reports why it did not; it never
+// rejects. Faults outside a dispense (door open, motor stall) are pushed to
+// onFault listeners.
+export interface DispenserDriver {
+  dispense(slot: string): Promise<DispenseResult>;
+  status(): DispenserStatus;
+  // Accepts vends again after a FAULT, once an operator has cleared the
+  // mechanism. Does nothing in any other status.
+  clearFault(): void;
+  onFault(listener: FaultListener): () => void;
+}
+
+export type DispenserConfig =
+  | { type: "simulator"; delayMs?: number; script?: string }
+  | { type: "serial"; path: string; timeoutMs?: number };
+
+export function faultFromCode(code: string, message: string, slot: string | null): DispenserFault {
+  const known: DispenserFaultCode[] = ["JAM", "TIMEOUT", "EMPTY", "COMM_ERROR"];
+  const upper = code.toUpperCase() as DispenserFaultCode;
+  return { code: known.includes(upper) ? upper : "UNKNOWN", message, slot, at: Date.now() };
+}
+
+const drivers = processSingleton("dispenser.drivers", () => new Map<string, DispenserDriver>());
+
+function createDriver(config: DispenserConfig): DispenserDriver {
+  switch (config.type) {
+    case "serial":
+      return createSerialDispenser({ path: config.path, timeoutMs: config.timeoutMs });
+    case "simulator":
+    default:
+      return createSimulatedDispenser({
+        delayMs: config.delayMs,
+        script: parseSimulatorScript(config.script ?? process.env.DISPENSER_SIMULATOR_SCRIPT),
+      });
+  }
+}
+
+export function getDispenser(machineId: string): DispenserDriver {
+  let driver = drivers.get(machineId);
+  if (driver) return driver;
+  const machine = getMachine(machineId);
+  if (!machine) throw new Error(`Unknown machine: ${machineId}`);
+  driver = createDriver(machine.dispenser);
+  drivers.set(machineId, driver);
+  return driver;
+}
+
+// Swaps the driver for a machine, e.g. a scripted simulator during development.
+export function setDispenser(machineId: string, driver: DispenserDriver): void {
+  drivers.set(machineId, driver);
+}
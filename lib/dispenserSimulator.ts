@@ -0,0 +1,85 @@
+import type { DispenseResult, DispenserDriver, DispenserFault, DispenserStatus, FaultListener } from "@/lib/dispenser";
+
+export type SimulatedOutcome = "ok" | "jam" | "timeout";
+
+export interface SimulatedDispenser extends DispenserDriver {
+  // Outcomes for the next dispense calls, consumed in order. Once empty every
+  // dispense succeeds.
+  script(...outcomes: SimulatedOutcome[]): void;
+  // Raises a fault outside of a dispense, as a door or motor sensor would.
+  injectFault(fault: Omit<DispenserFault, "at">): void;
+}
+
+const DEFAULT_DELAY_MS = 1500;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export function isSimulatedDispenser(driver: DispenserDriver): driver is SimulatedDispenser {
+  return "script" in driver && "injectFault" in driver;
+}
+
+export function parseSimulatorScript(raw: string | undefined): SimulatedOutcome[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is SimulatedOutcome => s === "ok" || s === "jam" || s === "timeout");
+}
+
+export function createSimulatedDispenser(
+  options: { delayMs?: number; timeoutMs?: number; script?: SimulatedOutcome[] } = {}
+): SimulatedDispenser {
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const queue: SimulatedOutcome[] = [...(options.script ?? [])];
+  const listeners = new Set<FaultListener>();
+  let current: DispenserStatus = "READY";
+
+  function emit(fault: DispenserFault) {
+    for (const listener of listeners) listener(fault);
+  }
+
+  return {
+    async dispense(slot: string): Promise<DispenseResult> {
+      if (current === "BUSY") {
+        return { ok: false, fault: { code: "UNKNOWN", message: "Dispenser busy", slot, at: Date.now() } };
+      }
+      const outcome = queue.shift() ?? "ok";
+      current = "BUSY";
+      console.log("[DISPENSER_SIMULATOR] Dispensing slot", slot, "->", outcome);
+      await new Promise((resolve) => setTimeout(resolve, outcome === "timeout" ? timeoutMs : delayMs));
+
+      if (outcome === "ok") {
+        current = "READY";
+        return { ok: true };
+      }
+      const fault: DispenserFault =
+        outcome === "jam"
+          ? { code: "JAM", message: `Slot ${slot} jammed`, slot, at: Date.now() }
+          : { code: "TIMEOUT", message: `No drop confirmation from slot ${slot}`, slot, at: Date.now() };
+      current = outcome === "jam" ? "FAULT" : "READY";
+      emit(fault);
+      return { ok: false, fault };
+    },
+    status() {
+      return current;
+    },
+    clearFault() {
+      if (current === "FAULT") current = "READY";
+    },
+    onFault(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    script(...outcomes) {
+      queue.push(...outcomes);
+      // A new script clears a previous jam, like an operator clearing the coil
+      if (current === "FAULT") current = "READY";
+    },
+    injectFault(fault) {
+      current = "FAULT";
+      emit({ ...fault, at: Date.now() });
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { Lot } from "@/lib/inventory";
+
+// Best-before dates are calendar days (YYYY-MM-DD) in the server's time zone.
+// A unit can still be sold on its best-before day.
+
+export function todayDate(now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function isDateString(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+export function isExpired(expiresAt: string | null, today: string = todayDate()): boolean {
+  return expiresAt !== null && expiresAt < today;
+}
+
+// Whole days from today to expiresAt; 0 on the best-before day itself
+export function daysUntil(expiresAt: string, today: string = todayDate()): number {
+  return Math.round((Date.parse(`${expiresAt}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86_400_000);
+}
+
+// A coil only vends from the front, so an expired lot blocks every lot loaded
+// behind it. Returns the lots that can still be sold, front first.
+export function sellableLots(lots: Lot[], today: string = todayDate()): Lot[] {
+  const blocked = lots.findIndex((lot) => isExpired(lot.expiresAt, today));
+  return blocked === -1 ? lots : lots.slice(0, blocked);
+}
+
+// Removes quantity units from the front of lots
+export function takeFromFront(lots: Lot[], quantity: number): Lot[] {
+  let remaining = quantity;
+  const rest: Lot[] = [];
+  for (const lot of lots) {
+    const taken = Math.min(remaining, lot.quantity);
+    remaining -= taken;
+    if (lot.quantity > taken) rest.push({ ...lot, quantity: lot.quantity - taken });
+  }
+  return rest;
+}
@@ -1,77 +1,554 @@
 import { promises as fs } from "fs";
 import path from "path";
+import crypto from "crypto";
+import { getMachine, getInventoryFilePath } from "@/lib/machines";
+import { recordTransaction, type NewTransaction } from "@/lib/transactions";
+import { getPlanogram } from "@/lib/planogram";
+import { checkStockLevel } from "@/lib/stockAlerts";
+import { isDateString, isExpired, sellableLots, takeFromFront, todayDate } from "@/lib/expiry";
+import {
+  INVENTORY_VERSION,
+  InventoryValidationError,
+  migrateInventory,
+  planogramIssues,
+  validateInventoryFile,
+  type InventoryFile,
+} from "@/lib/inventorySchema";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Units loaded together, sharing a best-before date and unit cost
+export type Lot = {
+  quantity: number;
+  // YYYY-MM-DD, or null when not tracked
+  expiresAt: string | null;
+  unitCost: number | null;
+};
 
 export type InventorySlot = {
+  // Catalog product loaded in the slot; slots without one are not sold
+  sku?: string;
   description: string;
   amount: number;
   avg_unit_price?: number;
+  // In coil order: the front lot, loaded first, is vended first. Quantities
+  // always add up to amount.
+  lots: Lot[];
 };
 
 export type Inventory = Record<string, InventorySlot>;
 
-const DATA_DIR = path.resolve(process.cwd(), "data");
-const INVENTORY_PATH = path.resolve(DATA_DIR, "inventory.json");
+// Units held for a session between creating its payment order and
+// dispensing. Reserved units stay on hand but are not offered to others.
+export type StockReservation = {
+  id: string;
+  sessionId: string;
+  slot: string;
+  quantity: number;
+  createdAt: number;
+};
+
+// expired counts units past their best-before date. available excludes them,
+// units stuck behind them in the coil and reserved units; availableLots are
+// the lots those available units come from, front first.
+export type StockLevel = InventorySlot & { reserved: number; expired: number; available: number; availableLots: Lot[] };
+
+function inventoryPathFor(machineId: string): string {
+  const machine = getMachine(machineId);
+  if (!machine) {
+    throw new Error(`Unknown machine: ${machineId}`);
+  }
+  return getInventoryFilePath(machine);
+}
 
-const DEFAULT_INVENTORY: Inventory = Object.fromEntries(
-  Array.from({ length: 10 }, (_v, i) => [String(i), { description: "", amount: 0 }])
-);
+// An empty slot for every code in the machine's planogram
+function defaultInventory(machineId: string): Inventory {
+  return Object.fromEntries(getPlanogram(machineId).codes.map((code) => [code, emptySlot()]));
+}
 
-export async function ensureInventoryFile(): Promise<void> {
+export async function ensureInventoryFile(machineId: string): Promise<void> {
+  const inventoryPath = inventoryPathFor(machineId);
   try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.mkdir(path.dirname(inventoryPath), { recursive: true });
   } catch (_) {
     // ignore mkdir errors, next ops will surface issues if any
   }
 
   try {
-    await fs.access(INVENTORY_PATH);
+    await fs.access(inventoryPath);
   } catch (_) {
-    await writeInventory(DEFAULT_INVENTORY);
+    await writeInventoryFile(machineId, { version: INVENTORY_VERSION, slots: defaultInventory(machineId), reservations: [] });
+  }
+}
+
+// Contents already backed up, so repeated reads of a bad file do not pile up copies
+const quarantined = processSingleton("inventory.quarantined", () => new Set<string>());
+
+// Copies an unreadable inventory file aside for an operator to repair. The
+// original is left in place and keeps failing reads until it is fixed, so
+// real stock counts are never replaced with an empty default.
+async function quarantine(inventoryPath: string, raw: string, error: InventoryValidationError): Promise<void> {
+  const key = `${inventoryPath}:${crypto.createHash("sha256").update(raw).digest("hex")}`;
+  if (quarantined.has(key)) return;
+  const backupPath = `${inventoryPath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  try {
+    await fs.writeFile(backupPath, raw, "utf8");
+    quarantined.add(key);
+    console.error("[INVENTORY_QUARANTINED]", backupPath, error.message);
+  } catch (err) {
+    console.error("[INVENTORY_QUARANTINE_ERROR]", inventoryPath, err);
+  }
+}
+
+function parseInventoryFile(raw: string): ReturnType<typeof migrateInventory> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new InventoryValidationError("Inventory file is not valid JSON", [(err as Error).message]);
   }
+  return migrateInventory(parsed);
+}
+
+// Planogram mismatches already reported, so every read does not log them again
+const reportedMismatches = processSingleton("inventory.reportedMismatches", () => new Set<string>());
+
+function reportPlanogramIssues(machineId: string, file: InventoryFile): void {
+  const issues = planogramIssues(file, getPlanogram(machineId));
+  const key = `${machineId}:${issues.join("\n")}`;
+  if (issues.length === 0 || reportedMismatches.has(key)) return;
+  reportedMismatches.add(key);
+  console.warn("[INVENTORY_PLANOGRAM_MISMATCH]", machineId, issues);
 }
 
-export async function readInventory(): Promise<Inventory> {
-  await ensureInventoryFile();
-  const raw = await fs.readFile(INVENTORY_PATH, "utf8");
+// Rewrites a file found in an older format. Queued behind the lock rather than
+// awaited, since readInventoryFile also runs inside it; a writer that got
+// there first will already have saved the current format.
+function saveMigratedFile(machineId: string): void {
+  const inventoryPath = inventoryPathFor(machineId);
+  withInventoryLock(machineId, async () => {
+    const result = parseInventoryFile(await fs.readFile(inventoryPath, "utf8"));
+    if (!result.migrated) return;
+    await writeInventoryFile(machineId, result.file);
+    console.warn("[INVENTORY_MIGRATED]", inventoryPath, `to version ${INVENTORY_VERSION}`);
+  }).catch((err) => console.error("[INVENTORY_MIGRATION_ERROR]", inventoryPath, err));
+}
+
+async function readInventoryFile(machineId: string): Promise<InventoryFile> {
+  await ensureInventoryFile(machineId);
+  const inventoryPath = inventoryPathFor(machineId);
+  const raw = await fs.readFile(inventoryPath, "utf8");
+  let result: ReturnType<typeof migrateInventory>;
   try {
-    const parsed = JSON.parse(raw) as Inventory;
-    return parsed;
+    result = parseInventoryFile(raw);
   } catch (err) {
-    // If file is corrupted, reset to default to keep system operable
-    await writeInventory(DEFAULT_INVENTORY);
-    return DEFAULT_INVENTORY;
+    if (err instanceof InventoryValidationError) await quarantine(inventoryPath, raw, err);
+    throw err;
   }
+  if (result.migrated) saveMigratedFile(machineId);
+  reportPlanogramIssues(machineId, result.file);
+  // Slots added to the planogram since the file was written start out empty
+  return { ...result.file, slots: { ...defaultInventory(machineId), ...result.file.slots } };
 }
 
-export async function writeInventory(inventory: Inventory): Promise<void> {
-  await fs.mkdir(DATA_DIR, { recursive: true });
-  const tmpPath = `${INVENTORY_PATH}.tmp`;
-  const data = JSON.stringify(inventory, null, 2) + "\n";
+async function writeInventoryFile(machineId: string, contents: InventoryFile): Promise<void> {
+  // Refuse to write anything we would not be able to read back
+  const file = validateInventoryFile(contents);
+  const inventoryPath = inventoryPathFor(machineId);
+  await fs.mkdir(path.dirname(inventoryPath), { recursive: true });
+  const tmpPath = `${inventoryPath}.tmp`;
+  const data = JSON.stringify(file, null, 2) + "\n";
   await fs.writeFile(tmpPath, data, "utf8");
-  await fs.rename(tmpPath, INVENTORY_PATH);
+  await fs.rename(tmpPath, inventoryPath);
+}
+
+export async function readInventory(machineId: string): Promise<Inventory> {
+  return (await readInventoryFile(machineId)).slots;
+}
+
+// Replaces the slots, keeping any outstanding reservations. Each slot whose
+// quantity changes is recorded as set.
+export async function writeInventory(machineId: string, inventory: Inventory, reason = "Inventory replaced"): Promise<void> {
+  await withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    await writeInventoryFile(machineId, { ...file, slots: inventory });
+    for (const [slot, next] of Object.entries(inventory)) {
+      const previous = file.slots[slot] ?? emptySlot();
+      if (next.amount === previous.amount) continue;
+      recordTransaction({
+        type: "INVENTORY_SET",
+        machineId,
+        sessionId: null,
+        ...movementFields(slot, previous, next),
+        reason,
+      });
+    }
+  });
+}
+
+// What every stock movement in the ledger carries, so a slot's quantity can be
+// replayed from the ledger alone
+function movementFields(slot: string, previous: InventorySlot, next: InventorySlot) {
+  return {
+    slot,
+    sku: next.sku ?? null,
+    description: next.description,
+    quantityDelta: next.amount - previous.amount,
+    slotAmount: next.amount,
+    avgUnitPrice: next.avg_unit_price ?? null,
+  };
+}
+
+function reservedUnits(file: InventoryFile, slot: string): number {
+  return file.reservations.filter((r) => r.slot === slot).reduce((sum, r) => sum + r.quantity, 0);
+}
+
+function sumLots(lots: Lot[]): number {
+  return lots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+function stockLevels(machineId: string, file: InventoryFile): Record<string, StockLevel> {
+  const today = todayDate();
+  return Object.fromEntries(
+    getPlanogram(machineId).codes.map((code) => {
+      const slot = file.slots[code] ?? emptySlot();
+      const reserved = reservedUnits(file, code);
+      const expired = sumLots(slot.lots.filter((lot) => isExpired(lot.expiresAt, today)));
+      // Reserved units are the next ones out of the coil
+      const availableLots = takeFromFront(sellableLots(slot.lots, today), reserved);
+      return [code, { ...slot, reserved, expired, available: sumLots(availableLots), availableLots }];
+    })
+  );
+}
+
+// On-hand, reserved and available units per slot, in planogram order
+export async function readStockLevels(machineId: string): Promise<Record<string, StockLevel>> {
+  return stockLevels(machineId, await readInventoryFile(machineId));
+}
+
+// Slots holding sku with units available, in the order to empty them: the
+// one whose next unit expires first, then fewest available, so a product is
+// not spread thin across half-empty coils. Ties keep planogram order.
+export function pickSlots(levels: Record<string, StockLevel>, sku: string): string[] {
+  const nextExpiry = (code: string) => levels[code].availableLots[0]?.expiresAt ?? "9999-12-31";
+  return Object.keys(levels)
+    .filter((code) => levels[code].sku === sku && levels[code].available > 0)
+    .sort((a, b) => nextExpiry(a).localeCompare(nextExpiry(b)) || levels[a].available - levels[b].available);
 }
 
-export async function decrementSlot(slot: number): Promise<Inventory> {
-  if (!Number.isInteger(slot) || slot < 0 || slot > 9) {
-    throw new Error("Invalid slot: must be an integer 0-9");
+// The lots the next quantity units of sku would be sold from, following pick
+// order. Short if fewer units are available.
+export function nextUnits(levels: Record<string, StockLevel>, sku: string, quantity: number): Lot[] {
+  const units: Lot[] = [];
+  let remaining = quantity;
+  for (const code of pickSlots(levels, sku)) {
+    for (const lot of levels[code].availableLots) {
+      if (remaining === 0) return units;
+      const taken = Math.min(remaining, lot.quantity);
+      units.push({ ...lot, quantity: taken });
+      remaining -= taken;
+    }
   }
+  return units;
+}
+
+// The slot to vend sku from: one still holding units reserved under any of
+// reservationIds, otherwise the first in pick order. Null when none has stock.
+export async function chooseDispenseSlot(machineId: string, sku: string, reservationIds: string[] = []): Promise<string | null> {
+  const file = await readInventoryFile(machineId);
+  const reserved = file.reservations.find((r) => reservationIds.includes(r.id) && file.slots[r.slot]?.sku === sku);
+  if (reserved) return reserved.slot;
+  return pickSlots(stockLevels(machineId, file), sku)[0] ?? null;
+}
+
+// The slot each reservation still holds units in, by reservation ID. A
+// reservation spread over several slots maps to the first one listed.
+export async function readReservedSlots(machineId: string): Promise<Map<string, string>> {
+  const slots = new Map<string, string>();
+  for (const r of (await readInventoryFile(machineId)).reservations) {
+    if (r.quantity > 0 && !slots.has(r.id)) slots.set(r.id, r.slot);
+  }
+  return slots;
+}
+
+// Pending read-modify-write per machine. Every change to an inventory file goes
+// through withInventoryLock so an operator edit cannot interleave with the
+// decrement of a sale in progress and lose one of the two updates.
+const inventoryLocks = processSingleton("inventory.locks", () => new Map<string, Promise<unknown>>());
+
+async function withInventoryLock<T>(machineId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = inventoryLocks.get(machineId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  inventoryLocks.set(machineId, next);
+  try {
+    return await next;
+  } finally {
+    if (inventoryLocks.get(machineId) === next) inventoryLocks.delete(machineId);
+  }
+}
+
+function emptySlot(): InventorySlot {
+  return { description: "", amount: 0, lots: [] };
+}
+
+// Grows or shrinks a slot's lots to match a new amount. Units removed come off
+// the front; units added go to the back as a lot with no known expiry.
+function resizeLots(slot: InventorySlot, amount: number, unitCost: number | null = slot.avg_unit_price ?? null): Lot[] {
+  if (amount <= slot.amount) return takeFromFront(slot.lots, slot.amount - amount);
+  return [...slot.lots, { quantity: amount - slot.amount, expiresAt: null, unitCost }];
+}
 
-  const inventory = await readInventory();
-  const key = String(slot);
-  const current = inventory[key] ?? { description: "", amount: 0 };
+function invalidSlotMessage(machineId: string, slot: string): string {
+  return `Invalid slot ${slot}: must be one of ${getPlanogram(machineId).codes.join(", ")}`;
+}
 
-  if (current.amount <= 0) {
-    throw new Error("Out of stock");
+// Removes one unit dispensed in a sale from the front lot of slot and records
+// the movement against the session. With a reservation ID the unit comes out
+// of that reservation if it still holds one for the slot; otherwise it must
+// come from unreserved, unexpired stock.
+export async function decrementSlot(
+  machineId: string,
+  slot: string,
+  sale: { sessionId: string; orderId?: string | null; reservationId?: string | null }
+): Promise<Inventory> {
+  const { reservationId } = sale;
+  if (!getPlanogram(machineId).get(slot)) {
+    throw new Error(invalidSlotMessage(machineId, slot));
   }
 
-  const updated: Inventory = { ...inventory, [key]: { ...current, amount: current.amount - 1 } };
-  await writeInventory(updated);
-  return updated;
+  return withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    const current = file.slots[slot] ?? emptySlot();
+    const held = file.reservations.find((r) => r.id === reservationId && r.slot === slot);
+
+    const sellable = sumLots(sellableLots(current.lots));
+    if (current.amount <= 0 || (!held && sellable - reservedUnits(file, slot) <= 0)) {
+      throw new Error("Out of stock");
+    }
+
+    const reservations = file.reservations
+      .map((r) => (r === held ? { ...r, quantity: r.quantity - 1 } : r))
+      .filter((r) => r.quantity > 0);
+    const slots: Inventory = {
+      ...file.slots,
+      [slot]: { ...current, amount: current.amount - 1, lots: takeFromFront(current.lots, 1) },
+    };
+    await writeInventoryFile(machineId, { ...file, slots, reservations });
+    recordTransaction({
+      type: "INVENTORY_SOLD",
+      machineId,
+      sessionId: sale.sessionId,
+      orderId: sale.orderId ?? null,
+      ...movementFields(slot, current, slots[slot]),
+    });
+    checkStockLevel(machineId, slot, current, slots[slot]);
+    return slots;
+  });
+}
+
+// Holds quantity units of sku for a session, taken from its slots in pick
+// order. Every slot used gets an entry under the same reservation ID. Fails
+// without changing anything if fewer units are available in total.
+export async function reserveProduct(
+  machineId: string,
+  reservation: { id: string; sessionId: string; sku: string; quantity: number }
+): Promise<{ ok: boolean; message?: string }> {
+  const { sku, quantity } = reservation;
+  if (!Number.isInteger(quantity) || quantity <= 0) return { ok: false, message: "Quantity must be a positive integer" };
+  return withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    const levels = stockLevels(machineId, file);
+    const entries: StockReservation[] = [];
+    let remaining = quantity;
+    for (const slot of pickSlots(levels, sku)) {
+      if (remaining === 0) break;
+      const take = Math.min(remaining, levels[slot].available);
+      entries.push({ id: reservation.id, sessionId: reservation.sessionId, slot, quantity: take, createdAt: Date.now() });
+      remaining -= take;
+    }
+    if (remaining > 0) {
+      return { ok: false, message: `Only ${quantity - remaining} units of ${sku} are available` };
+    }
+    await writeInventoryFile(machineId, { ...file, reservations: [...file.reservations, ...entries] });
+    return { ok: true };
+  });
+}
+
+async function dropReservations(machineId: string, shouldDrop: (r: StockReservation) => boolean): Promise<void> {
+  await withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    const reservations = file.reservations.filter((r) => !shouldDrop(r));
+    if (reservations.length === file.reservations.length) return;
+    await writeInventoryFile(machineId, { ...file, reservations });
+  });
+}
+
+// Gives back quantity units of a reservation, or all of them
+export async function releaseReservation(machineId: string, reservationId: string, quantity?: number): Promise<void> {
+  if (quantity === undefined) return dropReservations(machineId, (r) => r.id === reservationId);
+  await withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    let remaining = quantity;
+    const reservations = file.reservations
+      .map((r) => {
+        if (r.id !== reservationId || remaining === 0) return r;
+        const released = Math.min(remaining, r.quantity);
+        remaining -= released;
+        return { ...r, quantity: r.quantity - released };
+      })
+      .filter((r) => r.quantity > 0);
+    await writeInventoryFile(machineId, { ...file, reservations });
+  });
+}
+
+export async function releaseSessionReservations(machineId: string, sessionId: string): Promise<void> {
+  return dropReservations(machineId, (r) => r.sessionId === sessionId);
+}
+
+// Drops reservations left behind by sessions that are no longer running,
+// e.g. after a crash
+export async function releaseStaleReservations(machineId: string, activeSessionId: string): Promise<void> {
+  return dropReservations(machineId, (r) => r.sessionId !== activeSessionId);
+}
+
+export type InventoryUpdateResult = { ok: boolean; slot?: InventorySlot; message?: string };
+
+// Applies change to one slot under the lock and records the edit in the
+// transaction ledger. change returns the new slot or an error message; it is
+// also refused if it leaves fewer units than are reserved for pending payments.
+async function updateSlot(
+  machineId: string,
+  slot: string,
+  change: (current: InventorySlot, capacity: number) => InventorySlot | string,
+  entry: Omit<NewTransaction, "machineId" | "sessionId" | "slot">
+): Promise<InventoryUpdateResult> {
+  const layout = getPlanogram(machineId).get(slot);
+  if (!layout) return { ok: false, message: invalidSlotMessage(machineId, slot) };
+  return withInventoryLock(machineId, async () => {
+    const file = await readInventoryFile(machineId);
+    const current = file.slots[slot] ?? emptySlot();
+    const next = change(current, layout.capacity);
+    if (typeof next === "string") return { ok: false, message: next };
+    const reserved = reservedUnits(file, slot);
+    if (next.amount < current.amount && next.amount < reserved) {
+      return { ok: false, message: `Slot ${slot} has ${reserved} units reserved for pending payments; it cannot go below that` };
+    }
+    await writeInventoryFile(machineId, { ...file, slots: { ...file.slots, [slot]: next } });
+    recordTransaction({
+      machineId,
+      sessionId: null,
+      ...movementFields(slot, current, next),
+      ...entry,
+    });
+    return { ok: true, slot: next };
+  });
+}
+
+// Overwrites any of a slot's SKU, description, quantity and average unit cost
+export async function setSlot(
+  machineId: string,
+  slot: string,
+  fields: { sku?: string; description?: string; amount?: number; avg_unit_price?: number },
+  reason?: string
+): Promise<InventoryUpdateResult> {
+  return updateSlot(
+    machineId,
+    slot,
+    (current, capacity) => {
+      if (fields.amount !== undefined && fields.amount > capacity) return `Slot ${slot} holds at most ${capacity} units`;
+      return {
+        ...current,
+        ...fields,
+        lots: fields.amount !== undefined ? resizeLots(current, fields.amount, fields.avg_unit_price) : current.lots,
+      };
+    },
+    { type: "INVENTORY_SET", reason: reason || "Slot set by operator" }
+  );
+}
+
+// Loads quantity units bought at unitCost each behind the stock already in the
+// coil, as a new lot. avg_unit_price becomes the weighted average cost of the
+// stock on hand and the new units.
+export async function restockSlot(
+  machineId: string,
+  slot: string,
+  quantity: number,
+  unitCost: number,
+  description?: string,
+  expiresAt: string | null = null
+): Promise<InventoryUpdateResult> {
+  if (!Number.isInteger(quantity) || quantity <= 0) return { ok: false, message: "Quantity must be a positive integer" };
+  if (!Number.isFinite(unitCost) || unitCost < 0) return { ok: false, message: "Unit cost must be a non-negative number" };
+  if (expiresAt !== null && !isDateString(expiresAt)) return { ok: false, message: "expiresAt must be a YYYY-MM-DD date" };
+  return updateSlot(
+    machineId,
+    slot,
+    (current, capacity) => {
+      const amount = current.amount + quantity;
+      if (amount > capacity) return `Slot ${slot} holds at most ${capacity} units; it has ${current.amount}`;
+      // Stock without a known cost is valued at the new unit cost
+      const previousCost = current.avg_unit_price ?? unitCost;
+      const average = (current.amount * previousCost + quantity * unitCost) / amount;
+      return {
+        ...current,
+        description: description ?? current.description,
+        amount,
+        avg_unit_price: Math.round(average * 100) / 100,
+        lots: [...current.lots, { quantity, expiresAt, unitCost }],
+      };
+    },
+    { type: "INVENTORY_RESTOCKED", unitCost }
+  );
+}
+
+// Manual correction of a slot's quantity, e.g. after a physical count
+export async function adjustSlot(
+  machineId: string,
+  slot: string,
+  delta: number,
+  reason: string
+): Promise<InventoryUpdateResult> {
+  if (!Number.isInteger(delta) || delta === 0) return { ok: false, message: "Delta must be a non-zero integer" };
+  if (!reason.trim()) return { ok: false, message: "A reason is required for adjustments" };
+  return updateSlot(
+    machineId,
+    slot,
+    (current, capacity) => {
+      if (current.amount + delta < 0) return `Slot ${slot} only has ${current.amount} units`;
+      if (current.amount + delta > capacity) return `Slot ${slot} holds at most ${capacity} units`;
+      return { ...current, amount: current.amount + delta, lots: resizeLots(current, current.amount + delta) };
+    },
+    { type: "INVENTORY_ADJUSTED", reason }
+  );
+}
+
+// Removes every expired lot from slot, e.g. once they have been pulled on a
+// visit. Units behind them stay in the coil in order. The average cost is
+// recomputed from the remaining lots when all of them have a known cost.
+export async function pullExpiredStock(machineId: string, slot: string): Promise<InventoryUpdateResult> {
+  const today = todayDate();
+  return updateSlot(
+    machineId,
+    slot,
+    (current) => {
+      const lots = current.lots.filter((lot) => !isExpired(lot.expiresAt, today));
+      const amount = sumLots(lots);
+      if (amount === current.amount) return `Slot ${slot} has no expired stock`;
+      const costed = lots.every((lot) => lot.unitCost !== null) && amount > 0;
+      const average = costed ? lots.reduce((sum, lot) => sum + lot.quantity * (lot.unitCost ?? 0), 0) / amount : null;
+      return {
+        ...current,
+        amount,
+        lots,
+        ...(average !== null ? { avg_unit_price: Math.round(average * 100) / 100 } : {}),
+      };
+    },
+    { type: "INVENTORY_EXPIRED", reason: "Expired stock pulled" }
+  );
 }
 
-export async function getInventoryPath(): Promise<string> {
-  await ensureInventoryFile();
-  return INVENTORY_PATH;
+export async function getInventoryPath(machineId: string): Promise<string> {
+  await ensureInventoryFile(machineId);
+  return inventoryPathFor(machineId);
 }
 
 
@@ -0,0 +1,224 @@
+import type { Inventory, InventorySlot, Lot, StockReservation } from "@/lib/inventory";
+import { isDateString } from "@/lib/expiry";
+import type { Planogram } from "@/lib/planogram";
+
+// On-disk format of an inventory file. Version 1 files are the bare slot map
+// written before the format was versioned; version 2 had no reservations,
+// version 3 no product SKUs and version 4 no lots.
+export const INVENTORY_VERSION = 5;
+
+export interface InventoryFile {
+  version: typeof INVENTORY_VERSION;
+  slots: Inventory;
+  reservations: StockReservation[];
+}
+
+export class InventoryValidationError extends Error {
+  constructor(
+    message: string,
+    // One entry per problem, e.g. `slots.3.amount: must be a non-negative integer`
+    readonly issues: string[]
+  ) {
+    super(`${message}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "InventoryValidationError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateSlot(key: string, value: unknown, issues: string[]): InventorySlot | null {
+  const at = `slots.${key}`;
+  if (!isRecord(value)) {
+    issues.push(`${at}: must be an object`);
+    return null;
+  }
+  const { sku, description, amount, avg_unit_price, lots } = value;
+  const before = issues.length;
+  if (sku !== undefined && (typeof sku !== "string" || !sku.trim())) issues.push(`${at}.sku: must be a non-empty string when present`);
+  if (typeof description !== "string") issues.push(`${at}.description: must be a string`);
+  if (typeof amount !== "number" || !Number.isInteger(amount) || amount < 0) {
+    issues.push(`${at}.amount: must be a non-negative integer`);
+  }
+  if (avg_unit_price !== undefined && (typeof avg_unit_price !== "number" || !Number.isFinite(avg_unit_price) || avg_unit_price < 0)) {
+    issues.push(`${at}.avg_unit_price: must be a non-negative number when present`);
+  }
+  const validLots: Lot[] = [];
+  if (!Array.isArray(lots)) {
+    issues.push(`${at}.lots: must be an array`);
+  } else {
+    lots.forEach((lot, i) => {
+      const valid = validateLot(`${at}.lots.${i}`, lot, issues);
+      if (valid) validLots.push(valid);
+    });
+    const total = validLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (validLots.length === lots.length && typeof amount === "number" && total !== amount) {
+      issues.push(`${at}.lots: quantities add up to ${total}, not the slot amount of ${amount}`);
+    }
+  }
+  if (issues.length > before) return null;
+  const slot: InventorySlot = {
+    ...(sku !== undefined ? { sku: sku as string } : {}),
+    description: description as string,
+    amount: amount as number,
+    lots: validLots,
+  };
+  if (avg_unit_price !== undefined) slot.avg_unit_price = avg_unit_price as number;
+  return slot;
+}
+
+function validateLot(at: string, value: unknown, issues: string[]): Lot | null {
+  if (!isRecord(value)) {
+    issues.push(`${at}: must be an object`);
+    return null;
+  }
+  const { quantity, expiresAt, unitCost } = value;
+  const before = issues.length;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity <= 0) {
+    issues.push(`${at}.quantity: must be a positive integer`);
+  }
+  if (expiresAt !== null && !isDateString(expiresAt)) issues.push(`${at}.expiresAt: must be a YYYY-MM-DD date or null`);
+  if (unitCost !== null && (typeof unitCost !== "number" || !Number.isFinite(unitCost) || unitCost < 0)) {
+    issues.push(`${at}.unitCost: must be a non-negative number or null`);
+  }
+  if (issues.length > before) return null;
+  return { quantity, expiresAt, unitCost } as Lot;
+}
+
+function validateReservation(at: string, value: unknown, issues: string[]): StockReservation | null {
+  if (!isRecord(value)) {
+    issues.push(`${at}: must be an object`);
+    return null;
+  }
+  const { id, sessionId, slot, quantity, createdAt } = value;
+  const before = issues.length;
+  if (typeof id !== "string" || !id) issues.push(`${at}.id: must be a non-empty string`);
+  if (typeof sessionId !== "string") issues.push(`${at}.sessionId: must be a string`);
+  if (typeof slot !== "string") issues.push(`${at}.slot: must be a slot code`);
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity <= 0) {
+    issues.push(`${at}.quantity: must be a positive integer`);
+  }
+  if (typeof createdAt !== "number") issues.push(`${at}.createdAt: must be a timestamp`);
+  if (issues.length > before) return null;
+  return { id, sessionId, slot, quantity, createdAt } as StockReservation;
+}
+
+// Checks a current-version file and returns a clean copy with only known
+// fields. Throws InventoryValidationError listing every problem found.
+export function validateInventoryFile(data: unknown): InventoryFile {
+  const issues: string[] = [];
+  if (!isRecord(data)) throw new InventoryValidationError("Inventory must be a JSON object", ["(root): not an object"]);
+  if (data.version !== INVENTORY_VERSION) issues.push(`version: expected ${INVENTORY_VERSION}, got ${JSON.stringify(data.version)}`);
+  if (!isRecord(data.slots)) {
+    issues.push("slots: must be an object keyed by slot code");
+    throw new InventoryValidationError("Invalid inventory", issues);
+  }
+  const slots: Inventory = {};
+  for (const [key, value] of Object.entries(data.slots)) {
+    const slot = validateSlot(key, value, issues);
+    if (slot) slots[key] = slot;
+  }
+  const reservations: StockReservation[] = [];
+  if (!Array.isArray(data.reservations)) {
+    issues.push("reservations: must be an array");
+  } else {
+    data.reservations.forEach((value, i) => {
+      const reservation = validateReservation(`reservations.${i}`, value, issues);
+      if (reservation) reservations.push(reservation);
+    });
+  }
+  if (issues.length > 0) throw new InventoryValidationError("Invalid inventory", issues);
+  return { version: INVENTORY_VERSION, slots, reservations };
+}
+
+// Where a valid file disagrees with the machine's planogram: stock in a coil
+// it no longer has (e.g. one since disabled) or more units than a coil now
+// holds. These are reported, not rejected: the units are still in the
+// machine, and changing the planogram must not stop it from selling. Slots
+// outside the planogram are never offered for sale.
+export function planogramIssues(file: InventoryFile, planogram: Planogram): string[] {
+  const issues: string[] = [];
+  for (const [key, slot] of Object.entries(file.slots)) {
+    const layout = planogram.get(key);
+    if (!layout) {
+      if (slot.amount > 0) issues.push(`slots.${key}: ${slot.amount} units in a slot not in this machine's planogram`);
+    } else if (slot.amount > layout.capacity) {
+      issues.push(`slots.${key}.amount: ${slot.amount} exceeds the slot capacity of ${layout.capacity}`);
+    }
+  }
+  file.reservations.forEach((r, i) => {
+    if (!planogram.get(r.slot)) issues.push(`reservations.${i}.slot: ${r.slot} is not in this machine's planogram`);
+  });
+  return issues;
+}
+
+// v1 -> v2: wrap the bare slot map and rename the legacy avg_price field
+function migrateV1(data: Record<string, unknown>): Record<string, unknown> {
+  const slots: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!isRecord(value)) {
+      slots[key] = value;
+      continue;
+    }
+    const { avg_price, ...rest } = value;
+    slots[key] = rest.avg_unit_price === undefined && avg_price !== undefined ? { ...rest, avg_unit_price: avg_price } : rest;
+  }
+  return { version: 2, slots };
+}
+
+// v2 -> v3: stock reservations
+function migrateV2(data: Record<string, unknown>): Record<string, unknown> {
+  return { ...data, version: 3, reservations: [] };
+}
+
+// v3 -> v4: slots may name a catalog SKU. Existing slots keep none until an
+// operator assigns one.
+function migrateV3(data: Record<string, unknown>): Record<string, unknown> {
+  return { ...data, version: 4 };
+}
+
+// v4 -> v5: lots. Stock already loaded becomes one lot with no known expiry,
+// costed at the slot's average.
+function migrateV4(data: Record<string, unknown>): Record<string, unknown> {
+  const slots: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(isRecord(data.slots) ? data.slots : {})) {
+    if (!isRecord(value) || typeof value.amount !== "number" || value.amount <= 0) {
+      slots[key] = isRecord(value) ? { ...value, lots: [] } : value;
+      continue;
+    }
+    const unitCost = typeof value.avg_unit_price === "number" ? value.avg_unit_price : null;
+    slots[key] = { ...value, lots: [{ quantity: value.amount, expiresAt: null, unitCost }] };
+  }
+  return { ...data, version: 5, slots };
+}
+
+// Brings any known older format up to INVENTORY_VERSION and validates it.
+// `migrated` tells the caller whether the file should be rewritten.
+export function migrateInventory(data: unknown): { file: InventoryFile; migrated: boolean } {
+  if (!isRecord(data)) throw new InventoryValidationError("Inventory must be a JSON object", ["(root): not an object"]);
+  let current = data;
+  let migrated = false;
+  if (current.version === undefined) {
+    current = migrateV1(current);
+    migrated = true;
+  }
+  if (current.version === 2) {
+    current = migrateV2(current);
+    migrated = true;
+  }
+  if (current.version === 3) {
+    current = migrateV3(current);
+    migrated = true;
+  }
+  if (current.version === 4) {
+    current = migrateV4(current);
+    migrated = true;
+  }
+  if (typeof current.version === "number" && current.version > INVENTORY_VERSION) {
+    throw new InventoryValidationError("Inventory file is newer than this server", [
+      `version: ${current.version} is not supported (max ${INVENTORY_VERSION})`,
+    ]);
+  }
+  return { file: validateInventoryFile(current), migrated };
+}
@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import type { DispenserConfig } from "@/lib/dispenser";
+import type { NotifierConfig } from "@/lib/notifier";
+import type { PlanogramConfig } from "@/lib/planogram";
+import { resolveTimeouts, type TimeoutConfig } from "@/lib/timeouts";
+import { processSingleton } from "@/lib/processSingleton";
+
+export type MachineConfig = {
+  id: string;
+  name: string;
+  // Inventory file for this machine, relative to data/
+  inventoryFile: string;
+  // MercadoPago store and POS the machine's QR orders are created against
+  mpStoreId: string | null;
+  mpPosId: string | null;
+  // Public base URL customers reach this machine's pages on, used for the
+  // claim link in the kiosk QR. Falls back to the request origin when null.
+  displayUrl: string | null;
+  // Vend hardware driver; the in-process simulator unless configured
+  dispenser: DispenserConfig;
+  timeouts: TimeoutConfig;
+  // Coil layout; null keeps the original ten slots 0-9
+  planogram: PlanogramConfig | null;
+  // Where stock alerts go; from ALERT_* env vars, or the log, unless configured
+  notifier: NotifierConfig;
+};
+
+type MachineEntry = Partial<Omit<MachineConfig, "timeouts">> & { id: string; timeouts?: Partial<TimeoutConfig> };
+
+export const DEFAULT_MACHINE_ID = "default";
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const MACHINES_PATH = path.resolve(DATA_DIR, "machines.json");
+
+const loaded = processSingleton("machines", () => ({ registry: null as MachineConfig[] | null }));
+
+function toMachineConfig(entry: MachineEntry): MachineConfig {
+  return {
+    id: entry.id,
+    name: entry.name ?? entry.id,
+    inventoryFile: entry.inventoryFile ?? `inventory-${entry.id}.json`,
+    mpStoreId: entry.mpStoreId ?? null,
+    mpPosId: entry.mpPosId ?? null,
+    displayUrl: entry.displayUrl ?? null,
+    dispenser: entry.dispenser ?? defaultDispenser(),
+    timeouts: resolveTimeouts(entry.timeouts),
+    planogram: entry.planogram ?? null,
+    notifier: entry.notifier ?? defaultNotifier(),
+  };
+}
+
+function defaultDispenser(): DispenserConfig {
+  const serialPath = process.env.DISPENSER_SERIAL_PATH;
+  return serialPath ? { type: "serial", path: serialPath } : { type: "simulator" };
+}
+
+// A webhook if ALERT_WEBHOOK_URL is set, else email if ALERT_SMTP_HOST and
+// ALERT_EMAIL_TO are, else the server log
+function defaultNotifier(): NotifierConfig {
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (webhookUrl) return { type: "webhook", url: webhookUrl };
+  const smtpHost = process.env.ALERT_SMTP_HOST;
+  const to = process.env.ALERT_EMAIL_TO;
+  if (smtpHost && to) {
+    return {
+      type: "email",
+      host: smtpHost,
+      port: process.env.ALERT_SMTP_PORT ? Number(process.env.ALERT_SMTP_PORT) : undefined,
+      from: process.env.ALERT_EMAIL_FROM || "vending@localhost",
+      to: to.split(",").map((a) => a.trim()).filter(Boolean),
+    };
+  }
+  return { type: "log" };
+}
+
+// Single-machine deployments without a machines.json keep working off the
+// original inventory file and MP_STORE_ID / MP_POS_ID env vars.
+function defaultRegistry(): MachineConfig[] {
+  return [
+    {
+      id: DEFAULT_MACHINE_ID,
+      name: "Vending machine",
+      inventoryFile: "inventory.json",
+      mpStoreId: process.env.MP_STORE_ID || null,
+      mpPosId: process.env.MP_POS_ID || null,
+      displayUrl: process.env.VENDING_DISPLAY_URL || null,
+      dispenser: defaultDispenser(),
+      timeouts: resolveTimeouts(),
+      planogram: null,
+      notifier: defaultNotifier(),
+    },
+  ];
+}
+
+function loadRegistry(): MachineConfig[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(MACHINES_PATH, "utf8");
+  } catch {
+    return defaultRegistry();
+  }
+  const parsed = JSON.parse(raw) as { machines?: MachineEntry[] };
+  const machines = (parsed.machines ?? []).filter((m) => typeof m?.id === "string" && m.id.length > 0);
+  if (machines.length === 0) {
+    throw new Error(`No machines defined in ${MACHINES_PATH}`);
+  }
+  return machines.map(toMachineConfig);
+}
+
+export function listMachines(): MachineConfig[] {
+  if (!loaded.registry) loaded.registry = loadRegistry();
+  return loaded.registry;
+}
+
+export function getMachine(machineId: string): MachineConfig | null {
+  return listMachines().find((m) => m.id === machineId) ?? null;
+}
+
+// Routes accept an optional machineId; without one they address the first
+// registered machine so single-machine setups need no extra parameter.
+export function resolveMachine(machineId: string | null | undefined): MachineConfig | null {
+  if (!machineId) return listMachines()[0];
+  return getMachine(machineId);
+}
+
+export function getInventoryFilePath(machine: MachineConfig): string {
+  return path.resolve(DATA_DIR, machine.inventoryFile);
+}
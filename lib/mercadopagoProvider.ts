@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import type {
+  PaymentAttempt,
+  PaymentNotification,
+  PaymentOrder,
+  PaymentOrderStatus,
+  PaymentProvider,
+  Refund,
+} from "@/lib/payments";
+import { toIsoDuration } from "@/lib/timeouts";
+
+const API_BASE = "https://api.mercadopago.com/v1";
+
+type MercadoPagoOptions = { accessToken: string | null; webhookSecret: string | null };
+
+type MpOrder = {
+  id: string;
+  status: string;
+  total_amount?: string;
+  external_reference?: string | null;
+  type_response?: { qr_data?: string };
+  transactions?: {
+    payments?: { id: string; amount?: string }[];
+    refunds?: { id: string; amount?: string }[];
+  };
+};
+
+type MpPayment = {
+  id: number | string;
+  status: string;
+  order?: { id?: number | string } | null;
+  external_reference?: string | null;
+  transaction_amount?: number | null;
+};
+
+function orderStatus(status: string): PaymentOrderStatus {
+  switch (status) {
+    case "paid":
+    case "processed":
+      return "paid";
+    case "cancelled":
+    case "expired":
+    case "refunded":
+      return status;
+    case "failed":
+    case "rejected":
+      return "rejected";
+    default:
+      return "pending";
+  }
+}
+
+function paymentStatus(status: string): PaymentAttempt["status"] {
+  switch (status) {
+    case "approved":
+    case "rejected":
+    case "cancelled":
+    case "refunded":
+      return status;
+    default:
+      return "pending";
+  }
+}
+
+function toOrder(order: MpOrder): PaymentOrder {
+  return {
+    id: order.id,
+    status: orderStatus(order.status),
+    qrData: order.type_response?.qr_data ?? null,
+    amount: Number(order.total_amount ?? 0),
+    externalReference: order.external_reference ?? null,
+  };
+}
+
+/**
+ * Extrae ts y v1 del header x-signature (formato: "ts=...,v1=...").
+ * La verificación usa HMAC-SHA256 sobre:
+ *   manifest = `id:${dataId};request-id:${xRequestId};ts:${ts};`
+ * y compara contra v1.
+ * Fuente del esquema (manifest y parsing): casos públicos y discusiones de SDK.
+ */
+function parseSignatureHeader(h: string | null) {
+  if (!h) return null;
+  const parts = h.split(",").map(s => s.trim());
+  const map = Object.fromEntries(parts.map(p => p.split("=").map(s => s.trim())));
+  const ts = map["ts"];
+  const v1 = map["v1"];
+  if (!ts || !v1) return null;
+  return { ts, v1 };
+}
+
+function safeEqualHex(aHex: string, bHex: string) {
+  const a = Buffer.from(aHex, "hex");
+  const b = Buffer.from(bHex, "hex");
+  if (a.length !== b.length) return false;
+  return crypto.timingSafeEqual(a, b);
+}
+
+// ts viene en segundos o en milisegundos según el origen de la notificación
+function signedAt(ts: string): number | null {
+  const value = Number(ts);
+  if (!Number.isFinite(value)) return null;
+  return value < 1e12 ? value * 1000 : value;
+}
+
+// Devuelve el instante firmado (ms) si la firma es válida, o null si no
+function verifySignature(
+  secret: string | null,
+  { xSignature, xRequestId, dataId }: { xSignature: string | null; xRequestId: string | null; dataId: string | null }
+): { sentAt: number | null } | null {
+  if (!secret || !xSignature || !xRequestId || !dataId) return null;
+
+  const parsed = parseSignatureHeader(xSignature);
+  if (!parsed) return null;
+
+  const manifest = `id:${dataId};request-id:${xRequestId};ts:${parsed.ts};`;
+  const hmac = crypto.createHmac("sha256", secret).update(manifest).digest("hex");
+
+  return safeEqualHex(hmac, parsed.v1) ? { sentAt: signedAt(parsed.ts) } : null;
+}
+
+// data.id may come in the query or the body depending on the topic and on
+// whether it is the simulator sending it
+export function notificationDataId(req: Request, body: Record<string, unknown>): string | null {
+  const url = new URL(req.url);
+  const queryId = url.searchParams.get("id") || url.searchParams.get("data.id");
+  return (
+    queryId ??
+    ((body?.data as Record<string, unknown>)?.id as string) ??
+    (body?.id as string) ??
+    null
+  );
+}
+
+export function notificationTopic(req: Request, body: Record<string, unknown>): PaymentNotification["topic"] {
+  if (body?.type === "test" || body?.action === "test") return "test";
+  const topic = String(req.headers.get("x-topic") || body?.type || "").toLowerCase();
+  if (topic.includes("order")) return "order";
+  if (topic.includes("payment")) return "payment";
+  return "other";
+}
+
+// Orders API for in-person QR payments, against the POS configured for each machine
+export function createMercadoPagoProvider(options: MercadoPagoOptions): PaymentProvider {
+  async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    if (!options.accessToken) throw new Error("MercadoPago access token not configured");
+    const res = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${options.accessToken}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      const error = await res.text();
+      throw new Error(`MercadoPago ${init.method ?? "GET"} ${path} responded ${res.status}: ${error}`);
+    }
+    return (await res.json()) as T;
+  }
+
+  return {
+    name: "mercadopago",
+
+    configError(machine) {
+      if (!options.accessToken) return "MercadoPago access token not configured";
+      if (!machine.mpStoreId || !machine.mpPosId) return "MercadoPago store or POS not configured";
+      return null;
+    },
+
+    async createOrder(input) {
+      const amount = input.amount.toString();
+      const order = await request<MpOrder>("/orders", {
+        method: "POST",
+        headers: { "X-Idempotency-Key": input.idempotencyKey },
+        body: JSON.stringify({
+          type: "qr",
+          total_amount: amount,
+          description: input.description,
+          external_reference: input.externalReference,
+          expiration_time: toIsoDuration(input.expiresInMs),
+          config: { qr: { external_pos_id: input.machine.mpPosId, mode: "dynamic" } },
+          transactions: { payments: [{ amount }] },
+          items: [
+            {
+              title: input.description,
+              unit_price: (input.amount / input.quantity).toFixed(2),
+              quantity: input.quantity,
+              unit_measure: "unit",
+            },
+          ],
+        }),
+      });
+      console.log("MercadoPago order response:", JSON.stringify(order, null, 2));
+      return toOrder(order);
+    },
+
+    async getOrder(orderId) {
+      return toOrder(await request<MpOrder>(`/orders/${encodeURIComponent(orderId)}`));
+    },
+
+    async getPayment(paymentId) {
+      const payment = await request<MpPayment>(`/payments/${encodeURIComponent(paymentId)}`);
+      return {
+        id: String(payment.id),
+        status: paymentStatus(payment.status),
+        orderId: payment.order?.id != null ? String(payment.order.id) : null,
+        externalReference: payment.external_reference ?? null,
+        amount: payment.transaction_amount ?? null,
+      };
+    },
+
+    async cancelOrder(orderId) {
+      await request(`/orders/${encodeURIComponent(orderId)}/cancel`, {
+        method: "POST",
+        headers: { "X-Idempotency-Key": `cancel-${orderId}` },
+      });
+    },
+
+    async refund(orderId, amount, idempotencyKey = `refund-${orderId}-${amount ?? "full"}`) {
+      // A partial refund names the payment it comes out of
+      let body: string | undefined;
+      if (amount !== undefined) {
+        const order = await request<MpOrder>(`/orders/${encodeURIComponent(orderId)}`);
+        const payment = order.transactions?.payments?.[0];
+        if (!payment) throw new Error(`MercadoPago order ${orderId} has no payment to refund`);
+        body = JSON.stringify({ transactions: [{ id: payment.id, amount: amount.toFixed(2) }] });
+      }
+      const order = await request<MpOrder>(`/orders/${encodeURIComponent(orderId)}/refund`, {
+        method: "POST",
+        headers: { "X-Idempotency-Key": idempotencyKey },
+        body,
+      });
+      const refund = order.transactions?.refunds?.at(-1);
+      return {
+        id: refund?.id ?? orderId,
+        orderId,
+        amount: amount ?? Number(refund?.amount ?? order.total_amount ?? 0),
+      } satisfies Refund;
+    },
+
+    verifyWebhook(req, rawBody) {
+      let body: Record<string, unknown> = {};
+      try { body = rawBody ? JSON.parse(rawBody) : {}; } catch { /* ignorar */ }
+      const dataId = notificationDataId(req, body);
+      const xRequestId = req.headers.get("x-request-id");
+      const signature = verifySignature(options.webhookSecret, {
+        xSignature: req.headers.get("x-signature"),
+        xRequestId,
+        dataId,
+      });
+      if (!signature) return null;
+      return { topic: notificationTopic(req, body), dataId, requestId: xRequestId, sentAt: signature.sentAt };
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import type { PaymentOrder, PaymentOrderStatus, PaymentProvider, Refund } from "@/lib/payments";
+
+// Stand-in for a real processor during development: orders live in memory,
+// the QR opens /mock-pay on this server, and a developer settles them there
+// (or through /api/payments/mock). Settling sends a signed notification to
+// the webhook route, so the same path a real payment takes is exercised.
+
+export type MockOrder = PaymentOrder & {
+  description: string;
+  machineId: string;
+  createdAt: number;
+  expiresAt: number;
+  refunded: number;
+  origin: string;
+};
+
+export type MockSettlement = "paid" | "expired" | "rejected";
+
+export interface MockPaymentProvider extends PaymentProvider {
+  listOrders(): MockOrder[];
+  // Moves a pending order to paid, expired or rejected and notifies the webhook
+  settleOrder(orderId: string, status: MockSettlement): Promise<MockOrder>;
+}
+
+const WEBHOOK_PATH = "/api/mercadopago/webhook";
+const SIGNATURE_HEADER = "x-mock-signature";
+
+export function isMockPaymentProvider(provider: PaymentProvider): provider is MockPaymentProvider {
+  return provider.name === "mock";
+}
+
+export function createMockPaymentProvider(): MockPaymentProvider {
+  const orders = new Map<string, MockOrder>();
+  // Only this process can sign notifications the webhook will accept
+  const secret = crypto.randomBytes(32);
+
+  function sign(requestId: string, dataId: string, ts: number): string {
+    return crypto.createHmac("sha256", secret).update(`${requestId}:${dataId}:${ts}`).digest("hex");
+  }
+
+  function find(orderId: string): MockOrder {
+    const order = orders.get(orderId);
+    if (!order) throw new Error(`Mock order ${orderId} not found`);
+    if (order.status === "pending" && Date.now() >= order.expiresAt) order.status = "expired";
+    return order;
+  }
+
+  function publicOrder(order: MockOrder): PaymentOrder {
+    return {
+      id: order.id,
+      status: order.status,
+      qrData: order.qrData,
+      amount: order.amount,
+      externalReference: order.externalReference,
+    };
+  }
+
+  async function notify(order: MockOrder): Promise<void> {
+    const requestId = crypto.randomUUID();
+    const ts = Date.now();
+    const res = await fetch(`${order.origin}${WEBHOOK_PATH}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-request-id": requestId,
+        [SIGNATURE_HEADER]: `ts=${ts},v1=${sign(requestId, order.id, ts)}`,
+      },
+      body: JSON.stringify({ type: "order", action: `order.${order.status}`, data: { id: order.id } }),
+    });
+    if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+  }
+
+  return {
+    name: "mock",
+
+    configError() {
+      return null;
+    },
+
+    async createOrder(input) {
+      const id = `mock-${crypto.randomUUID()}`;
+      const order: MockOrder = {
+        id,
+        status: "pending",
+        qrData: `${input.origin}/mock-pay?orderId=${encodeURIComponent(id)}`,
+        amount: input.amount,
+        externalReference: input.externalReference,
+        description: input.description,
+        machineId: input.machine.id,
+        createdAt: Date.now(),
+        expiresAt: Date.now() + input.expiresInMs,
+        refunded: 0,
+        origin: input.origin,
+      };
+      orders.set(id, order);
+      return publicOrder(order);
+    },
+
+    async getOrder(orderId) {
+      return publicOrder(find(orderId));
+    },
+
+    // Each mock order has one payment, identified by the order's ID
+    async getPayment(paymentId) {
+      const order = find(paymentId);
+      const statuses: Record<PaymentOrderStatus, "pending" | "approved" | "rejected" | "cancelled" | "refunded"> = {
+        pending: "pending",
+        paid: "approved",
+        rejected: "rejected",
+        cancelled: "cancelled",
+        expired: "cancelled",
+        refunded: "refunded",
+      };
+      return {
+        id: order.id,
+        status: statuses[order.status],
+        orderId: order.id,
+        externalReference: order.externalReference,
+        amount: order.amount,
+      };
+    },
+
+    async cancelOrder(orderId) {
+      const order = find(orderId);
+      if (order.status === "paid" || order.status === "refunded") throw new Error(`Mock order ${orderId} is already paid`);
+      if (order.status === "pending") order.status = "cancelled";
+    },
+
+    async refund(orderId, amount) {
+      const order = find(orderId);
+      if (order.status !== "paid") throw new Error(`Mock order ${orderId} is ${order.status}, not paid`);
+      const remaining = order.amount - order.refunded;
+      const refundAmount = amount ?? remaining;
+      if (refundAmount <= 0 || refundAmount > remaining) {
+        throw new Error(`Cannot refund ${refundAmount} of mock order ${orderId}; ${remaining} left`);
+      }
+      order.refunded += refundAmount;
+      if (order.refunded >= order.amount) order.status = "refunded";
+      return { id: `refund-${crypto.randomUUID()}`, orderId, amount: refundAmount } satisfies Refund;
+    },
+
+    verifyWebhook(req, rawBody) {
+      let body: { type?: string; data?: { id?: string } } = {};
+      try { body = rawBody ? JSON.parse(rawBody) : {}; } catch { /* ignore */ }
+      const requestId = req.headers.get("x-request-id");
+      const signature = /^ts=(\d+),v1=([0-9a-f]+)$/.exec(req.headers.get(SIGNATURE_HEADER) ?? "");
+      const dataId = body.data?.id ?? null;
+      if (!requestId || !signature || !dataId) return null;
+      const ts = Number(signature[1]);
+      const expected = Buffer.from(sign(requestId, dataId, ts), "hex");
+      const given = Buffer.from(signature[2], "hex");
+      if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+      return { topic: body.type === "payment" ? "payment" : "order", dataId, requestId, sentAt: ts };
+    },
+
+    listOrders() {
+      return [...orders.values()]
+        .map((order) => ({ ...find(order.id) }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async settleOrder(orderId, status) {
+      const order = find(orderId);
+      if (order.status !== "pending") throw new Error(`Mock order ${orderId} is already ${order.status}`);
+      order.status = status;
+      if (status === "expired") order.expiresAt = Date.now();
+      await notify(order).catch((err) => console.error("[MOCK_PAYMENT_NOTIFY_ERROR]", orderId, err));
+      return { ...order };
+    },
+  };
+}
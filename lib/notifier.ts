@@ -0,0 +1,91 @@
+import { getMachine } from "@/lib/machines";
+import { createSmtpNotifier } from "@/lib/smtpNotifier";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Something an operator should hear about without watching the logs, e.g. a
+// coil running low
+export interface Notification {
+  // Machine-readable kind, e.g. "LOW_STOCK"
+  kind: string;
+  machineId: string;
+  subject: string;
+  text: string;
+  data?: Record<string, unknown>;
+  at: number;
+}
+
+// Delivery channel for notifications. notify() rejects if delivery failed;
+// callers decide whether that matters.
+export interface Notifier {
+  notify(notification: Notification): Promise<void>;
+}
+
+export type NotifierConfig =
+  | { type: "log" }
+  | { type: "webhook"; url: string }
+  // Plain SMTP without auth or TLS, meant for a local relay or a stand-in such
+  // as MailHog
+  | { type: "email"; host: string; port?: number; from: string; to: string[] };
+
+function createLogNotifier(): Notifier {
+  return {
+    async notify(notification) {
+      console.warn(`[NOTIFY] ${notification.machineId} ${notification.kind}: ${notification.subject}`, notification.data ?? "");
+    },
+  };
+}
+
+function createWebhookNotifier(url: string): Notifier {
+  return {
+    async notify(notification) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(notification),
+      });
+      if (!res.ok) throw new Error(`Webhook ${url} responded ${res.status}`);
+    },
+  };
+}
+
+const notifiers = processSingleton("notifier.notifiers", () => new Map<string, Notifier>());
+
+function createNotifier(config: NotifierConfig): Notifier {
+  switch (config.type) {
+    case "webhook":
+      return createWebhookNotifier(config.url);
+    case "email":
+      return createSmtpNotifier(config);
+    case "log":
+    default:
+      return createLogNotifier();
+  }
+}
+
+export function getNotifier(machineId: string): Notifier {
+  let notifier = notifiers.get(machineId);
+  if (notifier) return notifier;
+  const machine = getMachine(machineId);
+  if (!machine) throw new Error(`Unknown machine: ${machineId}`);
+  notifier = createNotifier(machine.notifier);
+  notifiers.set(machineId, notifier);
+  return notifier;
+}
+
+// Swaps the notifier for a machine, e.g. to capture notifications in development.
+export function setNotifier(machineId: string, notifier: Notifier): void {
+  notifiers.set(machineId, notifier);
+}
+
+// Sends without blocking the caller; failures are logged along with the
+// notification so nothing is lost silently.
+export function sendNotification(notification: Notification): void {
+  let notifier: Notifier;
+  try {
+    notifier = getNotifier(notification.machineId);
+  } catch (err) {
+    console.error("[NOTIFY_ERROR]", err, notification);
+    return;
+  }
+  notifier.notify(notification).catch((err) => console.error("[NOTIFY_ERROR]", err, notification));
+}
@@ -0,0 +1,14 @@
+import crypto from "crypto";
+
+// Operator endpoints expect `Authorization: Bearer <OPERATOR_API_TOKEN>`.
+// Without the env var set every operator request is refused.
+export function isOperatorRequest(req: Request): boolean {
+  const expected = process.env.OPERATOR_API_TOKEN;
+  if (!expected) return false;
+  const header = req.headers.get("authorization") || "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const a = crypto.createHash("sha256").update(match[1].trim()).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
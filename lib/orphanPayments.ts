@@ -0,0 +1,177 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { resolveMachine } from "@/lib/machines";
+import { sendNotification } from "@/lib/notifier";
+import { requestRefund } from "@/lib/refunds";
+import { queryTransactions, recordTransaction } from "@/lib/transactions";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Why a payment could not be applied:
+// - late: the order was ours, but its session is no longer waiting on it
+// - mismatch: a machine is waiting on the order, but the session or amount differ
+// - unmatched: no order of ours that it belongs to
+export type OrphanKind = "late" | "mismatch" | "unmatched";
+
+export type OrphanStatus = "open" | "refunded" | "dismissed";
+
+// Money the provider says it took that no session got credit for
+export interface OrphanPayment {
+  id: string;
+  kind: OrphanKind;
+  reason: string;
+  orderId: string | null;
+  paymentId: string | null;
+  externalReference: string | null;
+  amount: number | null;
+  // Where the order was created, if the ledger knows
+  machineId: string | null;
+  sessionId: string | null;
+  source: "webhook" | "poller";
+  status: OrphanStatus;
+  receivedAt: number;
+  resolvedAt: number | null;
+  refundId: string | null;
+}
+
+export type NewOrphanPayment = Pick<
+  OrphanPayment,
+  "kind" | "reason" | "orderId" | "paymentId" | "externalReference" | "amount" | "source"
+>;
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const ORPHANS_PATH = process.env.VENDING_ORPHANS_PATH || path.resolve(DATA_DIR, "orphan-payments.json");
+
+const cache = processSingleton("orphanPayments", () => ({ orphans: null as OrphanPayment[] | null }));
+
+function load(): OrphanPayment[] {
+  if (cache.orphans) return cache.orphans;
+  try {
+    cache.orphans = JSON.parse(fs.readFileSync(ORPHANS_PATH, "utf8")) as OrphanPayment[];
+  } catch {
+    cache.orphans = [];
+  }
+  return cache.orphans;
+}
+
+function save(): void {
+  try {
+    fs.mkdirSync(path.dirname(ORPHANS_PATH), { recursive: true });
+    const tmpPath = `${ORPHANS_PATH}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(load(), null, 2) + "\n", "utf8");
+    fs.renameSync(tmpPath, ORPHANS_PATH);
+  } catch (err) {
+    console.error("[ORPHAN_PAYMENT_WRITE_ERROR]", err);
+  }
+}
+
+// Fills in the machine and session an orphan's order was created for, then
+// records it and tells that machine's operator (or the default machine's, if
+// the order is not ours)
+async function locate(orphan: OrphanPayment): Promise<void> {
+  if (orphan.orderId) {
+    const created = (await queryTransactions({ orderId: orphan.orderId, type: "PAYMENT_CREATED" })).at(-1);
+    if (created) {
+      orphan.machineId = created.machineId;
+      orphan.sessionId = created.sessionId;
+    } else if (orphan.kind === "late") {
+      orphan.kind = "unmatched";
+      orphan.reason = "No order of ours has this ID";
+    }
+    save();
+  }
+  if (orphan.machineId) {
+    recordTransaction({
+      type: "PAYMENT_ORPHANED",
+      machineId: orphan.machineId,
+      sessionId: orphan.sessionId,
+      orderId: orphan.orderId,
+      amount: orphan.amount,
+      reason: orphan.reason,
+    });
+  }
+  const notifyMachine = orphan.machineId ?? resolveMachine(null)?.id;
+  if (!notifyMachine) return;
+  sendNotification({
+    kind: "PAYMENT_ORPHANED",
+    machineId: notifyMachine,
+    subject: `Payment of ${orphan.amount ?? "unknown amount"} was not applied to any session`,
+    text: `${orphan.reason}. Review it in the admin dashboard and refund or dismiss it.`,
+    data: { orphanId: orphan.id, orderId: orphan.orderId, paymentId: orphan.paymentId, externalReference: orphan.externalReference },
+    at: Date.now(),
+  });
+}
+
+// Keeps a payment no session was credited for. The same order or payment is
+// only kept once, however many notifications report it.
+export function recordOrphanPayment(entry: NewOrphanPayment): OrphanPayment | null {
+  const current = load();
+  const duplicate = current.some(
+    (o) => (entry.orderId !== null && o.orderId === entry.orderId) || (entry.paymentId !== null && o.paymentId === entry.paymentId)
+  );
+  if (duplicate) return null;
+  const orphan: OrphanPayment = {
+    ...entry,
+    id: crypto.randomUUID(),
+    machineId: null,
+    sessionId: null,
+    status: "open",
+    receivedAt: Date.now(),
+    resolvedAt: null,
+    refundId: null,
+  };
+  current.push(orphan);
+  save();
+  console.warn("[PAYMENT_ORPHANED]", orphan.kind, orphan.orderId, orphan.paymentId, orphan.reason);
+  void locate(orphan).catch((err) => console.error("[ORPHAN_PAYMENT_ERROR]", orphan.id, err));
+  return orphan;
+}
+
+export function listOrphanPayments(filter: { machineId?: string; status?: OrphanStatus } = {}): OrphanPayment[] {
+  return load()
+    .filter((o) => (!filter.machineId || o.machineId === filter.machineId) && (!filter.status || o.status === filter.status))
+    .map((o) => ({ ...o }))
+    .sort((a, b) => b.receivedAt - a.receivedAt);
+}
+
+// Refunds the whole order through the usual refund queue. Only orders created
+// by one of our machines can be refunded from here, and not once a session
+// was credited for them: their items may already have been dispensed.
+export async function refundOrphanPayment(orphanId: string): Promise<{ ok: boolean; message?: string }> {
+  const orphan = load().find((o) => o.id === orphanId);
+  if (!orphan) return { ok: false, message: "No orphan payment with that id" };
+  if (orphan.status !== "open") return { ok: false, message: `Orphan payment is ${orphan.status}` };
+  if (!orphan.orderId || !orphan.machineId || !orphan.sessionId || orphan.amount === null) {
+    return { ok: false, message: "The order was not created by a machine here; refund it with the provider" };
+  }
+  const credited = await queryTransactions({ orderId: orphan.orderId, type: "PAYMENT_PAID" });
+  if (credited.length > 0) {
+    return { ok: false, message: "The order was credited to its session; dismiss this orphan instead" };
+  }
+  // The status may have changed while the ledger was read
+  if (orphan.status !== "open") return { ok: false, message: `Orphan payment is ${orphan.status}` };
+  const refund = requestRefund({
+    machineId: orphan.machineId,
+    sessionId: orphan.sessionId,
+    orderId: orphan.orderId,
+    orderAmount: orphan.amount,
+    full: true,
+    reason: `Orphan payment: ${orphan.reason}`,
+  });
+  orphan.status = "refunded";
+  orphan.resolvedAt = Date.now();
+  orphan.refundId = refund.id;
+  save();
+  return { ok: true };
+}
+
+// Marks an orphan as handled without refunding it, e.g. settled by hand
+export function dismissOrphanPayment(orphanId: string): { ok: boolean; message?: string } {
+  const orphan = load().find((o) => o.id === orphanId);
+  if (!orphan) return { ok: false, message: "No orphan payment with that id" };
+  if (orphan.status !== "open") return { ok: false, message: `Orphan payment is ${orphan.status}` };
+  orphan.status = "dismissed";
+  orphan.resolvedAt = Date.now();
+  save();
+  return { ok: true };
+}
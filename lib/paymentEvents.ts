@@ -0,0 +1,244 @@
+import fs from "fs";
+import path from "path";
+import type { PaymentNotification, PaymentOrderStatus } from "@/lib/payments";
+import { listMachines } from "@/lib/machines";
+import { recordOrphanPayment } from "@/lib/orphanPayments";
+import {
+  getPaymentCredits,
+  getSnapshot,
+  recordPaymentClosed,
+  recordPaymentCredit,
+  transitionToChatting,
+} from "@/lib/vendingState";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Every payment notification and every order status we act on goes through
+// here. Notifications are checked for freshness and seen at most once; an
+// order's final status is applied to its machine exactly once, whichever of
+// the webhook or the poller sees it first.
+
+export type OrderEventSource = "webhook" | "poller";
+
+// What the provider reported about one of our orders, or about a payment that
+// may belong to one. Any of the correlation fields may be missing from a
+// payment report.
+export type OrderEvent = {
+  orderId: string | null;
+  paymentId?: string | null;
+  status: PaymentOrderStatus;
+  // Our session ID, as sent when the order was created
+  externalReference: string | null;
+  amount: number | null;
+};
+
+// An order status change that reached its machine
+export type AppliedOrderEvent = {
+  orderId: string;
+  status: PaymentOrderStatus;
+  source: OrderEventSource;
+  machineId: string;
+  sessionId: string;
+  amount: number | null;
+  at: number;
+};
+
+type Inbox = {
+  // Notification key -> when it was admitted
+  notifications: Record<string, number>;
+  applied: Record<string, AppliedOrderEvent>;
+};
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const INBOX_PATH = process.env.VENDING_PAYMENT_INBOX_PATH || path.resolve(DATA_DIR, "payment-inbox.json");
+
+// How far a notification's signed timestamp may be from our clock
+const DEFAULT_TOLERANCE_SEC = 300;
+// Applied orders are remembered this long; a stale order cannot reach a
+// machine anyway once it has left PAYMENT_PENDING
+const APPLIED_RETENTION_MS = 24 * 60 * 60_000;
+
+const cache = processSingleton("paymentEvents.inbox", () => ({ inbox: null as Inbox | null }));
+
+export function webhookToleranceMs(): number {
+  const seconds = Number(process.env.PAYMENT_WEBHOOK_TOLERANCE_SEC);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TOLERANCE_SEC) * 1000;
+}
+
+function load(): Inbox {
+  if (cache.inbox) return cache.inbox;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(INBOX_PATH, "utf8")) as Partial<Inbox>;
+    cache.inbox = { notifications: parsed.notifications ?? {}, applied: parsed.applied ?? {} };
+  } catch {
+    cache.inbox = { notifications: {}, applied: {} };
+  }
+  return cache.inbox;
+}
+
+function save(): void {
+  try {
+    fs.mkdirSync(path.dirname(INBOX_PATH), { recursive: true });
+    const tmpPath = `${INBOX_PATH}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(load(), null, 2) + "\n", "utf8");
+    fs.renameSync(tmpPath, INBOX_PATH);
+  } catch (err) {
+    console.error("[PAYMENT_INBOX_WRITE_ERROR]", err);
+  }
+}
+
+// A notification older than the tolerance is rejected on its timestamp, so
+// its key only needs keeping for that long (twice, to cover clock skew)
+function prune(now: number): void {
+  const current = load();
+  const notificationCutoff = now - 2 * webhookToleranceMs();
+  for (const [key, at] of Object.entries(current.notifications)) {
+    if (at < notificationCutoff) delete current.notifications[key];
+  }
+  for (const [orderId, event] of Object.entries(current.applied)) {
+    if (event.at < now - APPLIED_RETENTION_MS) delete current.applied[orderId];
+  }
+}
+
+function notificationKey(notification: PaymentNotification): string {
+  return `${notification.topic}:${notification.requestId ?? ""}:${notification.dataId ?? ""}`;
+}
+
+// Accepts a verified notification for processing, or says why not: its
+// signed timestamp is missing or outside the tolerance, or it was already
+// admitted. Pass the key to releaseNotification if processing fails, so a
+// redelivery is not turned away as a duplicate.
+export function admitNotification(
+  notification: PaymentNotification,
+  now = Date.now()
+): { ok: boolean; key?: string; duplicate?: boolean; message?: string } {
+  if (notification.sentAt === null) return { ok: false, message: "Notification has no signed timestamp" };
+  if (Math.abs(now - notification.sentAt) > webhookToleranceMs()) {
+    return { ok: false, message: "Notification timestamp outside tolerance" };
+  }
+  prune(now);
+  const key = notificationKey(notification);
+  const current = load();
+  if (current.notifications[key] !== undefined) return { ok: false, key, duplicate: true, message: "Duplicate notification" };
+  current.notifications[key] = now;
+  save();
+  return { ok: true, key };
+}
+
+export function releaseNotification(key: string): void {
+  const current = load();
+  if (current.notifications[key] === undefined) return;
+  delete current.notifications[key];
+  save();
+}
+
+// The machine waiting on the event's order. The order ID picks the machine
+// (or, when a payment report lacks it, the session ID does); the session and
+// amount must then match what that machine is waiting for. A report missing
+// either cannot be matched, but says nothing against the order either.
+function matchWaitingMachine(
+  event: OrderEvent
+): { ok: boolean; machineId?: string; sessionId?: string; orderId?: string; incomplete?: boolean; message?: string } {
+  for (const { id: machineId } of listMachines()) {
+    const { state, sessionId, paymentInfo } = getSnapshot(machineId);
+    if (state !== "PAYMENT_PENDING" || !paymentInfo.preferenceId) continue;
+    if (event.orderId ? paymentInfo.preferenceId !== event.orderId : sessionId !== event.externalReference) continue;
+
+    if (event.externalReference === null || event.amount === null) {
+      return { ok: false, incomplete: true, message: "Report lacks external_reference or amount; waiting for the order's own report" };
+    }
+    if (event.externalReference !== sessionId) {
+      return { ok: false, message: `external_reference ${event.externalReference ?? "missing"} is not session ${sessionId}` };
+    }
+    if (paymentInfo.amount === null || Math.abs(event.amount - paymentInfo.amount) >= 0.005) {
+      return { ok: false, message: `Amount ${event.amount ?? "missing"} is not the ${paymentInfo.amount} owed` };
+    }
+    return { ok: true, machineId, sessionId, orderId: paymentInfo.preferenceId };
+  }
+  return { ok: false };
+}
+
+// Whether a running session already holds credit for orderId
+function isCredited(orderId: string): boolean {
+  return listMachines().some(({ id: machineId }) =>
+    (getPaymentCredits(machineId, getSnapshot(machineId).sessionId).credits ?? []).some((c) => c.orderId === orderId)
+  );
+}
+
+// A later report about an order whose final status was already applied. A
+// payment on an order that had closed unpaid took money no session will get
+// credit for, so it is kept as an orphan.
+function alreadyApplied(
+  previous: AppliedOrderEvent,
+  event: OrderEvent,
+  source: OrderEventSource
+): { ok: boolean; applied: boolean; message?: string } {
+  const message = `Order already ${previous.status} via ${previous.source}`;
+  if (event.status === "paid" && previous.status !== "paid") {
+    recordOrphanPayment({
+      kind: "late",
+      reason: `Paid after the order was ${previous.status}`,
+      orderId: previous.orderId,
+      paymentId: event.paymentId ?? null,
+      externalReference: event.externalReference,
+      amount: event.amount,
+      source,
+    });
+  }
+  return { ok: true, applied: false, message };
+}
+
+// Applies an order's status to the machine waiting on it: a paid order
+// becomes a credit, a closed one is logged, and either way the machine goes
+// back to CHATTING. The check and the record happen before anything else, in
+// one synchronous step, so a second caller with the same order finds it
+// already applied. A payment that matches no waiting machine is kept as an
+// orphan for an operator instead of being credited to whoever is there.
+export function applyOrderStatus(
+  event: OrderEvent,
+  source: OrderEventSource
+): { ok: boolean; applied: boolean; message?: string } {
+  const { status } = event;
+  if (status === "pending") return { ok: true, applied: false, message: "Order still pending" };
+  if (status === "refunded") return { ok: true, applied: false, message: "Refunds do not settle a pending payment" };
+
+  const current = load();
+  // A payment report without an order ID is recognized by session and amount
+  const previous = event.orderId
+    ? current.applied[event.orderId]
+    : Object.values(current.applied).find(
+        (a) => a.sessionId === event.externalReference && a.status === status && a.amount === event.amount
+      );
+  if (previous) return alreadyApplied(previous, event, source);
+  const match = matchWaitingMachine(event);
+  if (!match.ok || !match.machineId || !match.sessionId || !match.orderId) {
+    const message = match.message ?? "No machine is waiting on this order";
+    if (status === "paid" && !match.incomplete && !(event.orderId && isCredited(event.orderId))) {
+      recordOrphanPayment({
+        kind: match.message ? "mismatch" : event.orderId ? "late" : "unmatched",
+        reason: message,
+        orderId: event.orderId,
+        paymentId: event.paymentId ?? null,
+        externalReference: event.externalReference,
+        amount: event.amount,
+        source,
+      });
+    }
+    return { ok: true, applied: false, message };
+  }
+  const { machineId, sessionId, orderId } = match;
+  if (current.applied[orderId]) return alreadyApplied(current.applied[orderId], event, source);
+
+  current.applied[orderId] = { orderId, status, source, machineId, sessionId, amount: event.amount, at: Date.now() };
+  prune(Date.now());
+  save();
+
+  if (status === "paid") {
+    const credit = recordPaymentCredit(machineId, sessionId, orderId);
+    if (!credit.ok) return { ok: false, applied: true, message: credit.message };
+  } else {
+    recordPaymentClosed(machineId, sessionId, orderId, status);
+  }
+  const result = transitionToChatting(machineId, sessionId, source);
+  console.log(`Order ${orderId} ${status} applied via ${source}:`, machineId, sessionId);
+  return { ok: result.ok, applied: true, message: result.message };
+}
@@ -0,0 +1,117 @@
+import { applyOrderStatus } from "@/lib/paymentEvents";
+import { getPaymentProvider, type PaymentOrderStatus } from "@/lib/payments";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Fallback for when webhooks do not arrive: one queue of every open order,
+// polled at the provider with backoff until the order settles, its machine
+// stops waiting on it, or its payment deadline passes. The machine's state
+// decides what is open; vendingState tracks an order when it enters
+// PAYMENT_PENDING (or is found there after a restart) and untracks it on the
+// way out.
+
+export interface PollEntry {
+  orderId: string;
+  machineId: string;
+  sessionId: string;
+  attempts: number;
+  nextPollAt: number;
+  // Polling stops here even if the order is still pending. The machine's
+  // payment timer normally untracks the order first.
+  deadline: number;
+  lastStatus: PaymentOrderStatus | null;
+  lastError: string | null;
+  trackedAt: number;
+}
+
+const FIRST_DELAY_MS = 3_000;
+const MAX_DELAY_MS = 20_000;
+
+const queue = processSingleton("paymentPoller.queue", () => new Map<string, PollEntry>());
+const inFlight = processSingleton("paymentPoller.inFlight", () => new Set<string>());
+const poller = processSingleton("paymentPoller.timer", () => ({ timer: null as ReturnType<typeof setTimeout> | null }));
+
+function backoff(attempts: number): number {
+  return Math.min(FIRST_DELAY_MS * 2 ** attempts, MAX_DELAY_MS);
+}
+
+// One timer, for whichever entry is due first
+function reschedule(): void {
+  if (poller.timer) clearTimeout(poller.timer);
+  poller.timer = null;
+  const next = Math.min(...[...queue.values()].filter((e) => !inFlight.has(e.orderId)).map((e) => e.nextPollAt));
+  if (!Number.isFinite(next)) return;
+  poller.timer = setTimeout(() => {
+    poller.timer = null;
+    const now = Date.now();
+    for (const entry of queue.values()) {
+      if (entry.nextPollAt <= now) void poll(entry);
+    }
+    reschedule();
+  }, Math.max(0, next - Date.now()));
+}
+
+async function poll(entry: PollEntry): Promise<void> {
+  if (inFlight.has(entry.orderId)) return;
+  inFlight.add(entry.orderId);
+  entry.attempts += 1;
+  try {
+    const order = await getPaymentProvider().getOrder(entry.orderId);
+    entry.lastStatus = order.status;
+    entry.lastError = null;
+    if (order.status !== "pending") {
+      // Same handler as the webhook: whichever sees it first applies it
+      const result = applyOrderStatus(
+        { orderId: order.id, status: order.status, externalReference: order.externalReference, amount: order.amount },
+        "poller"
+      );
+      if (!result.applied) console.log(`Order ${order.id} ${order.status} not applied by poller:`, result.message);
+      queue.delete(entry.orderId);
+    }
+  } catch (err) {
+    entry.lastError = err instanceof Error ? err.message : String(err);
+    console.error("[PAYMENT_POLL_ERROR]", entry.machineId, entry.orderId, err);
+  } finally {
+    inFlight.delete(entry.orderId);
+    if (queue.get(entry.orderId) === entry) {
+      if (Date.now() >= entry.deadline) {
+        console.log(`Polling deadline passed for order ${entry.orderId}`);
+        queue.delete(entry.orderId);
+      } else {
+        entry.nextPollAt = Date.now() + backoff(entry.attempts);
+      }
+    }
+    reschedule();
+  }
+}
+
+// Starts polling an order until expiresAt. Tracking an order already in the
+// queue does nothing.
+export function trackOrder(entry: { orderId: string; machineId: string; sessionId: string; expiresAt: number }): void {
+  if (queue.has(entry.orderId)) return;
+  const now = Date.now();
+  queue.set(entry.orderId, {
+    orderId: entry.orderId,
+    machineId: entry.machineId,
+    sessionId: entry.sessionId,
+    attempts: 0,
+    nextPollAt: now + FIRST_DELAY_MS,
+    deadline: entry.expiresAt,
+    lastStatus: null,
+    lastError: null,
+    trackedAt: now,
+  });
+  reschedule();
+}
+
+// Stops polling an order; a poll already under way finishes but is not repeated
+export function untrackOrder(orderId: string): void {
+  if (!queue.delete(orderId)) return;
+  reschedule();
+}
+
+// The open orders being polled, soonest first
+export function listPollQueue(): PollEntry[] {
+  return [...queue.values()]
+    .map((e) => ({ ...e }))
+    .sort((a, b) => a.nextPollAt - b.nextPollAt);
+}
@@ -0,0 +1,105 @@
+import type { MachineConfig } from "@/lib/machines";
+import { createMercadoPagoProvider } from "@/lib/mercadopagoProvider";
+import { createMockPaymentProvider } from "@/lib/mockPaymentProvider";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Where an order stands at the provider. "pending" covers everything before
+// the customer pays or the order closes.
+export type PaymentOrderStatus = "pending" | "paid" | "cancelled" | "expired" | "rejected" | "refunded";
+
+export interface PaymentOrder {
+  id: string;
+  status: PaymentOrderStatus;
+  // What the customer's QR encodes
+  qrData: string | null;
+  amount: number;
+  // Our session ID, echoed back by the provider
+  externalReference: string | null;
+}
+
+// A single payment attempt against an order, as reported by payment-topic
+// notifications
+export interface PaymentAttempt {
+  id: string;
+  status: "pending" | "approved" | "rejected" | "cancelled" | "refunded";
+  // Order the payment belongs to, when the provider says
+  orderId: string | null;
+  externalReference: string | null;
+  amount: number | null;
+}
+
+export interface CreateOrderInput {
+  machine: MachineConfig;
+  amount: number;
+  quantity: number;
+  description: string;
+  externalReference: string;
+  // How long the customer has to pay
+  expiresInMs: number;
+  idempotencyKey: string;
+  // Public origin of this server, for providers whose QR links back to it
+  origin: string;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  amount: number;
+}
+
+// A verified notification: what it is about and which object to look up
+export interface PaymentNotification {
+  topic: "order" | "payment" | "test" | "other";
+  dataId: string | null;
+  requestId: string | null;
+  // When the provider signed it (epoch ms), if the signature covers a timestamp
+  sentAt: number | null;
+}
+
+// A payment processor. Calls reject when the provider cannot be reached or
+// refuses the request; callers decide whether that matters.
+export interface PaymentProvider {
+  name: string;
+  // Why orders cannot be created for this machine, or null if they can
+  configError(machine: MachineConfig): string | null;
+  createOrder(input: CreateOrderInput): Promise<PaymentOrder>;
+  getOrder(orderId: string): Promise<PaymentOrder>;
+  getPayment(paymentId: string): Promise<PaymentAttempt>;
+  cancelOrder(orderId: string): Promise<void>;
+  // Refunds amount, or the whole order when amount is omitted
+  refund(orderId: string, amount?: number, idempotencyKey?: string): Promise<Refund>;
+  // Checks a webhook request came from the provider. Returns null if it did not.
+  verifyWebhook(req: Request, rawBody: string): PaymentNotification | null;
+}
+
+export type PaymentProviderConfig = { type: "mercadopago" } | { type: "mock" };
+
+const current = processSingleton("payments.provider", () => ({ provider: null as PaymentProvider | null }));
+
+function providerConfig(): PaymentProviderConfig {
+  return process.env.PAYMENT_PROVIDER === "mock" ? { type: "mock" } : { type: "mercadopago" };
+}
+
+function createProvider(config: PaymentProviderConfig): PaymentProvider {
+  switch (config.type) {
+    case "mock":
+      return createMockPaymentProvider();
+    case "mercadopago":
+    default:
+      return createMercadoPagoProvider({
+        accessToken: process.env.MP_ACCESS_TOKEN || null,
+        webhookSecret: process.env.MP_WEBHOOK_SECRET || null,
+      });
+  }
+}
+
+// MercadoPago unless PAYMENT_PROVIDER=mock
+export function getPaymentProvider(): PaymentProvider {
+  if (!current.provider) current.provider = createProvider(providerConfig());
+  return current.provider;
+}
+
+// Swaps the provider, e.g. a scripted one during development.
+export function setPaymentProvider(next: PaymentProvider): void {
+  current.provider = next;
+}
@@ -0,0 +1,70 @@
+import { readCatalog } from "@/lib/catalog";
+import { readStockLevels } from "@/lib/inventory";
+import type { MachineConfig } from "@/lib/machines";
+import { getPlanogram } from "@/lib/planogram";
+
+// Units of one product to bring to one machine, and which coils they go in
+export type PickListLine = {
+  sku: string;
+  name: string;
+  units: number;
+  slots: { slot: string; units: number; amount: number; capacity: number }[];
+};
+
+export type MachinePickList = {
+  machineId: string;
+  machineName: string;
+  units: number;
+  lines: PickListLine[];
+};
+
+export type PickList = {
+  generatedAt: number;
+  machines: MachinePickList[];
+  // Everything to load into the van, summed over machines
+  totals: { sku: string; name: string; units: number }[];
+};
+
+// Fills every coil that holds a product back up to capacity, counting expired
+// units as pulled. With lowOnly, only coils at or below their low-stock
+// threshold are counted. Slots without a SKU are skipped since there is no
+// telling what to bring for them.
+export async function buildPickList(machines: MachineConfig[], options: { lowOnly?: boolean } = {}): Promise<PickList> {
+  const catalog = await readCatalog();
+  const totals = new Map<string, { sku: string; name: string; units: number }>();
+  const lists: MachinePickList[] = [];
+
+  for (const machine of machines) {
+    const levels = await readStockLevels(machine.id);
+    const lines = new Map<string, PickListLine>();
+    for (const layout of getPlanogram(machine.id).slots) {
+      const slot = levels[layout.code];
+      if (!slot?.sku) continue;
+      const remaining = slot.amount - slot.expired;
+      const units = layout.capacity - remaining;
+      if (units <= 0 || (options.lowOnly && remaining > layout.lowStock)) continue;
+      const name = catalog.get(slot.sku)?.name ?? slot.description;
+      const line = lines.get(slot.sku) ?? { sku: slot.sku, name, units: 0, slots: [] };
+      line.units += units;
+      line.slots.push({ slot: layout.code, units, amount: remaining, capacity: layout.capacity });
+      lines.set(slot.sku, line);
+
+      const total = totals.get(slot.sku) ?? { sku: slot.sku, name, units: 0 };
+      total.units += units;
+      totals.set(slot.sku, total);
+    }
+    const machineLines = [...lines.values()].sort((a, b) => b.units - a.units);
+    lists.push({
+      machineId: machine.id,
+      machineName: machine.name,
+      units: machineLines.reduce((sum, l) => sum + l.units, 0),
+      lines: machineLines,
+    });
+  }
+
+  return {
+    generatedAt: Date.now(),
+    machines: lists,
+    totals: [...totals.values()].sort((a, b) => b.units - a.units),
+  };
+}
@@ -0,0 +1,87 @@
+import { getMachine } from "@/lib/machines";
+import { processSingleton } from "@/lib/processSingleton";
+
+// Layout of a machine's coils. Codes are the row label followed by the column
+// number, e.g. rows ["A", "B"] with 8 columns gives A1-A8 and B1-B8.
+export interface PlanogramConfig {
+  // Row labels, top tray first
+  rows: string[];
+  // Coils per row
+  columns: number;
+  // Number of the first column; 1 for A1-style codes
+  firstColumn?: number;
+  // Units a coil holds unless overridden in slots
+  capacity: number;
+  // A low-stock alert fires when a coil drops to this many units; defaults
+  // to DEFAULT_LOW_STOCK unless overridden in slots
+  lowStock?: number;
+  // Per-code overrides. Disabled codes (e.g. covered by a double-wide coil)
+  // are left out of the planogram.
+  slots?: Record<string, { capacity?: number; lowStock?: number; disabled?: boolean }>;
+}
+
+export interface PlanogramSlot {
+  code: string;
+  row: string;
+  column: number;
+  capacity: number;
+  lowStock: number;
+}
+
+export interface Planogram {
+  // In display order: row by row, left to right
+  slots: PlanogramSlot[];
+  codes: string[];
+  get(code: string): PlanogramSlot | null;
+}
+
+// The original layout: one tray of ten coils numbered 0-9
+export const LEGACY_PLANOGRAM: PlanogramConfig = { rows: [""], columns: 10, firstColumn: 0, capacity: 10 };
+
+export const DEFAULT_LOW_STOCK = 2;
+
+export function buildPlanogram(config: PlanogramConfig): Planogram {
+  const firstColumn = config.firstColumn ?? 1;
+  const slots: PlanogramSlot[] = [];
+  for (const row of config.rows) {
+    for (let column = firstColumn; column < firstColumn + config.columns; column++) {
+      const code = `${row}${column}`;
+      const override = config.slots?.[code];
+      if (override?.disabled) continue;
+      slots.push({
+        code,
+        row,
+        column,
+        capacity: override?.capacity ?? config.capacity,
+        lowStock: override?.lowStock ?? config.lowStock ?? DEFAULT_LOW_STOCK,
+      });
+    }
+  }
+  const byCode = new Map(slots.map((s) => [s.code, s]));
+  return {
+    slots,
+    codes: slots.map((s) => s.code),
+    get: (code) => byCode.get(code) ?? null,
+  };
+}
+
+const planograms = processSingleton("planogram.planograms", () => new Map<string, Planogram>());
+
+export function getPlanogram(machineId: string): Planogram {
+  let planogram = planograms.get(machineId);
+  if (planogram) return planogram;
+  const machine = getMachine(machineId);
+  if (!machine) throw new Error(`Unknown machine: ${machineId}`);
+  planogram = buildPlanogram(machine.planogram ?? LEGACY_PLANOGRAM);
+  planograms.set(machineId, planogram);
+  return planogram;
+}
+
+// Normalizes a slot from a request or tool call. Numbers are accepted for the
+// legacy 0-9 layout; codes are case-insensitive.
+export function parseSlotCode(value: unknown): string | null {
+  if (typeof value === "number") return Number.isInteger(value) && value >= 0 ? String(value) : null;
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return code.length > 0 ? code : null;
+}
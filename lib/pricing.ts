@@ -0,0 +1,193 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { readCatalog, summarizeProductStock } from "@/lib/catalog";
+import { nextUnits, readStockLevels } from "@/lib/inventory";
+import { daysUntil } from "@/lib/expiry";
+
+// Margins and discounts are fractions: 0.2 is 20%.
+export type PriceRule = {
+  // Per-unit price the product is normally sold at
+  listPrice?: number;
+  // Unit price may never go below average unit cost times (1 + minMargin)
+  minMargin?: number;
+  // Unit price may never go below listPrice times (1 - maxDiscount)
+  maxDiscount?: number;
+  // Units with at most this many days left before their best-before date may
+  // be sold with nearExpiryMaxDiscount and nearExpiryMinMargin instead, each
+  // falling back to the regular limit when unset
+  nearExpiryDays?: number;
+  nearExpiryMaxDiscount?: number;
+  nearExpiryMinMargin?: number;
+};
+
+// Rules for a product are looked up by SKU, then by catalog category, then
+// the defaults; the first one that sets a field wins.
+export type PricingPolicy = {
+  defaults: PriceRule;
+  categories: Record<string, PriceRule>;
+  products: Record<string, PriceRule>;
+};
+
+// What a product may be sold for, per unit. Null limits are not enforced.
+export type PriceQuote = {
+  sku: string;
+  listPrice: number | null;
+  unitCost: number | null;
+  // Cost plus the minimum margin
+  floor: number | null;
+  // Lowest unit price allowed: the floor or the largest discount off list,
+  // whichever is higher
+  minUnitPrice: number | null;
+  // Highest unit price allowed; charging more than list is clamped to it
+  maxUnitPrice: number | null;
+  // Whether every unit quoted is close enough to expiry for the near-expiry limits
+  nearExpiry: boolean;
+};
+
+export type PriceCheck = { ok: boolean; amount?: number; message?: string; quote?: PriceQuote };
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const PRICING_PATH = path.resolve(DATA_DIR, "pricing.json");
+
+// Without a pricing file nothing is sold below cost and there is no list price
+const DEFAULT_POLICY: PricingPolicy = { defaults: { minMargin: 0 }, categories: {}, products: {} };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Reads data/pricing.json on every call so price edits apply without a restart
+export async function readPricingPolicy(): Promise<PricingPolicy> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(PRICING_PATH, "utf8");
+  } catch {
+    return DEFAULT_POLICY;
+  }
+  const parsed = JSON.parse(raw) as Partial<PricingPolicy>;
+  return {
+    defaults: { ...DEFAULT_POLICY.defaults, ...parsed.defaults },
+    categories: parsed.categories ?? {},
+    products: parsed.products ?? {},
+  };
+}
+
+const FRACTION_FIELDS = ["minMargin", "maxDiscount", "nearExpiryMaxDiscount", "nearExpiryMinMargin"] as const;
+
+// Checks a rule's fields; returns why it is invalid, or null if it is fine
+export function validatePriceRule(rule: PriceRule): string | null {
+  if (rule.listPrice !== undefined && !(Number.isFinite(rule.listPrice) && rule.listPrice > 0)) {
+    return "listPrice must be a positive number";
+  }
+  for (const field of FRACTION_FIELDS) {
+    const value = rule[field];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) return `${field} must be a non-negative fraction`;
+  }
+  if (rule.maxDiscount !== undefined && rule.maxDiscount >= 1) return "maxDiscount must be below 1";
+  if (rule.nearExpiryMaxDiscount !== undefined && rule.nearExpiryMaxDiscount >= 1) return "nearExpiryMaxDiscount must be below 1";
+  if (rule.nearExpiryDays !== undefined && !(Number.isInteger(rule.nearExpiryDays) && rule.nearExpiryDays >= 0)) {
+    return "nearExpiryDays must be a non-negative integer";
+  }
+  return null;
+}
+
+// Replaces the rule for a product (sku), a category, or the defaults when
+// neither is given. A null rule removes a product or category rule.
+export async function setPriceRule(
+  target: { sku?: string; category?: string },
+  rule: PriceRule | null
+): Promise<{ ok: boolean; policy?: PricingPolicy; message?: string }> {
+  if (rule) {
+    const invalid = validatePriceRule(rule);
+    if (invalid) return { ok: false, message: invalid };
+  } else if (!target.sku && !target.category) {
+    return { ok: false, message: "The default rule cannot be removed" };
+  }
+  // Copied, since without a file this is the shared default policy
+  const policy = structuredClone(await readPricingPolicy());
+  const rules = target.sku ? policy.products : target.category ? policy.categories : null;
+  const key = target.sku ?? target.category;
+  if (rules && key) {
+    if (rule) rules[key] = rule;
+    else delete rules[key];
+  } else if (rule) {
+    policy.defaults = rule;
+  }
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmpPath = `${PRICING_PATH}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(policy, null, 2) + "\n", "utf8");
+  await fs.rename(tmpPath, PRICING_PATH);
+  return { ok: true, policy };
+}
+
+export function resolveRule(policy: PricingPolicy, sku: string, category: string | null): PriceRule {
+  return {
+    ...policy.defaults,
+    ...(category ? policy.categories[category] : undefined),
+    ...policy.products[sku],
+  };
+}
+
+// latestExpiry is the best-before date of the last-expiring unit being sold,
+// or null if any of them is undated
+export function buildQuote(sku: string, rule: PriceRule, unitCost: number | null, latestExpiry: string | null = null): PriceQuote {
+  const nearExpiry =
+    rule.nearExpiryDays !== undefined && latestExpiry !== null && daysUntil(latestExpiry) <= rule.nearExpiryDays;
+  const minMargin = (nearExpiry ? rule.nearExpiryMinMargin : undefined) ?? rule.minMargin ?? 0;
+  const maxDiscount = (nearExpiry ? rule.nearExpiryMaxDiscount : undefined) ?? rule.maxDiscount;
+  const listPrice = rule.listPrice ?? null;
+  const floor = unitCost !== null ? round2(unitCost * (1 + minMargin)) : null;
+  const discounted = listPrice !== null && maxDiscount !== undefined ? round2(listPrice * (1 - maxDiscount)) : null;
+  const limits = [floor, discounted].filter((v): v is number => v !== null);
+  return {
+    sku,
+    listPrice,
+    unitCost,
+    floor,
+    minUnitPrice: limits.length > 0 ? Math.max(...limits) : null,
+    maxUnitPrice: listPrice,
+    nearExpiry,
+  };
+}
+
+// Latest best-before date among the lots, or null if any is undated
+export function latestExpiry(lots: { expiresAt: string | null }[]): string | null {
+  if (lots.length === 0 || lots.some((lot) => lot.expiresAt === null)) return null;
+  return lots.map((lot) => lot.expiresAt as string).sort().at(-1) ?? null;
+}
+
+// Price limits for the next quantity units of sku on a machine, costed at the
+// average unit cost of the units it has available
+export async function quotePrice(machineId: string, sku: string, quantity = 1): Promise<PriceQuote> {
+  const [policy, catalog, levels] = await Promise.all([readPricingPolicy(), readCatalog(), readStockLevels(machineId)]);
+  const rule = resolveRule(policy, sku, catalog.get(sku)?.category ?? null);
+  const stock = summarizeProductStock(catalog, levels).find((s) => s.sku === sku);
+  const units = nextUnits(levels, sku, quantity);
+  const expiry = units.reduce((sum, lot) => sum + lot.quantity, 0) === quantity ? latestExpiry(units) : null;
+  return buildQuote(sku, rule, stock?.avg_unit_price ?? null, expiry);
+}
+
+// Checks a total amount for quantity units of sku against the policy. Amounts
+// above list price are clamped down to it; amounts below the minimum, or for
+// a product with neither a cost nor a list price, are refused. The message
+// says why, so it can be passed straight back to the model.
+export async function checkPrice(machineId: string, sku: string, quantity: number, amount: number): Promise<PriceCheck> {
+  if (!Number.isFinite(amount) || amount <= 0) return { ok: false, message: "Amount must be a positive number" };
+  const quote = await quotePrice(machineId, sku, quantity);
+  if (quote.minUnitPrice === null && quote.maxUnitPrice === null) {
+    return { ok: false, quote, message: `${sku} has no cost or list price, so it cannot be priced` };
+  }
+  const unitPrice = amount / quantity;
+  if (quote.minUnitPrice !== null && unitPrice < quote.minUnitPrice) {
+    return {
+      ok: false,
+      quote,
+      message: `${amount} for ${quantity} is below the minimum of ${round2(quote.minUnitPrice * quantity)} (${quote.minUnitPrice} per unit)`,
+    };
+  }
+  if (quote.maxUnitPrice !== null && unitPrice > quote.maxUnitPrice) {
+    const clamped = round2(quote.maxUnitPrice * quantity);
+    return { ok: true, quote, amount: clamped, message: `Charged the list price of ${clamped} instead of ${amount}` };
+  }
+  return { ok: true, quote, amount };
+}
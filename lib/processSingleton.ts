@@ -0,0 +1,11 @@
+// Next.js bundles the server code more than once: the instrumentation hook
+// that runs at startup gets its own copy of every module, apart from the one
+// the routes use. State that must exist once per server process (machine
+// runtimes, timers, queues, locks and the files cached from disk) is created
+// through here, on globalThis, so every copy of a module shares it.
+export function processSingleton<T>(key: string, create: () => T): T {
+  const registry = globalThis as typeof globalThis & { __vendingSingletons?: Map<string, unknown> };
+  registry.__vendingSingletons ??= new Map();
+  if (!registry.__vendingSingletons.has(key)) registry.__vendingSingletons.set(key, create());
+  return registry.__vendingSingletons.get(key) as T;
+}
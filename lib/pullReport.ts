@@ -0,0 +1,55 @@
+import { readInventory } from "@/lib/inventory";
+import type { MachineConfig } from "@/lib/machines";
+import { getPlanogram } from "@/lib/planogram";
+import { daysUntil, isExpired, todayDate } from "@/lib/expiry";
+
+// One lot to take out of a coil on the next visit
+export type PullItem = {
+  slot: string;
+  sku: string | null;
+  description: string;
+  quantity: number;
+  expiresAt: string;
+  // Already past its best-before date, or only expiring before the visit
+  expired: boolean;
+};
+
+export type MachinePullReport = {
+  machineId: string;
+  machineName: string;
+  units: number;
+  items: PullItem[];
+};
+
+// Lots past their best-before date, plus those that will be by the next
+// visit when withinDays is given (e.g. 7 for a weekly route).
+export async function buildPullReport(machines: MachineConfig[], options: { withinDays?: number } = {}): Promise<{
+  generatedAt: number;
+  machines: MachinePullReport[];
+}> {
+  const today = todayDate();
+  const withinDays = options.withinDays ?? 0;
+  const reports: MachinePullReport[] = [];
+  for (const machine of machines) {
+    const inventory = await readInventory(machine.id);
+    const items: PullItem[] = [];
+    for (const { code } of getPlanogram(machine.id).slots) {
+      const slot = inventory[code];
+      for (const lot of slot?.lots ?? []) {
+        if (lot.expiresAt === null) continue;
+        const expired = isExpired(lot.expiresAt, today);
+        // A unit is still good on its best-before day, so withinDays = 1 covers tomorrow's visit
+        if (!expired && daysUntil(lot.expiresAt, today) >= withinDays) continue;
+        items.push({ slot: code, sku: slot.sku ?? null, description: slot.description, quantity: lot.quantity, expiresAt: lot.expiresAt, expired });
+      }
+    }
+    items.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+    reports.push({
+      machineId: machine.id,
+      machineName: machine.name,
+      units: items.reduce((sum, i) => sum + i.quantity, 0),
+      items,
+    });
+  }
+  return { generatedAt: Date.now(), machines: reports };
+}
@@ -0,0 +1,221 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { sendNotification } from "@/lib/notifier";
+import { getPaymentProvider } from "@/lib/payments";
+import { recordTransaction } from "@/lib/transactions";
+import { processSingleton } from "@/lib/processSingleton";
+
+export type RefundStatus = "pending" | "completed" | "failed";
+
+// Money owed back to a customer for paid items they never got
+export interface RefundRequest {
+  id: string;
+  machineId: string;
+  sessionId: string;
+  orderId: string;
+  amount: number;
+  // Paid items the refund covers
+  units: number;
+  // The whole order, rather than part of it
+  full: boolean;
+  reason: string;
+  status: RefundStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  createdAt: number;
+  completedAt: number | null;
+  providerRefundId: string | null;
+}
+
+// What the customer is shown about a refund
+export type RefundView = Pick<
+  RefundRequest,
+  "id" | "orderId" | "amount" | "units" | "reason" | "status" | "createdAt" | "completedAt"
+>;
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const REFUNDS_PATH = process.env.VENDING_REFUNDS_PATH || path.resolve(DATA_DIR, "refunds.json");
+
+// Delay before each retry; after the last one the refund is marked failed and
+// left for an operator
+const RETRY_DELAYS_MS = [5_000, 30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000];
+
+const cache = processSingleton("refunds", () => ({ refunds: null as RefundRequest[] | null }));
+const timers = processSingleton("refunds.timers", () => new Map<string, ReturnType<typeof setTimeout>>());
+const inFlight = processSingleton("refunds.inFlight", () => new Set<string>());
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function load(): RefundRequest[] {
+  if (cache.refunds) return cache.refunds;
+  try {
+    cache.refunds = JSON.parse(fs.readFileSync(REFUNDS_PATH, "utf8")) as RefundRequest[];
+  } catch {
+    cache.refunds = [];
+  }
+  return cache.refunds;
+}
+
+function save(): void {
+  try {
+    fs.mkdirSync(path.dirname(REFUNDS_PATH), { recursive: true });
+    const tmpPath = `${REFUNDS_PATH}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(load(), null, 2) + "\n", "utf8");
+    fs.renameSync(tmpPath, REFUNDS_PATH);
+  } catch (err) {
+    console.error("[REFUND_WRITE_ERROR]", err);
+  }
+}
+
+function record(refund: RefundRequest, type: "REFUND_REQUESTED" | "REFUND_ATTEMPT_FAILED" | "REFUND_COMPLETED" | "REFUND_FAILED", reason: string) {
+  recordTransaction({
+    type,
+    machineId: refund.machineId,
+    sessionId: refund.sessionId,
+    orderId: refund.orderId,
+    refundId: refund.id,
+    amount: refund.amount,
+    quantity: refund.units,
+    reason,
+  });
+}
+
+function schedule(refund: RefundRequest): void {
+  if (refund.status !== "pending" || timers.has(refund.id)) return;
+  const delay = Math.max(0, (refund.nextAttemptAt ?? Date.now()) - Date.now());
+  timers.set(
+    refund.id,
+    setTimeout(() => {
+      timers.delete(refund.id);
+      void attempt(refund);
+    }, delay)
+  );
+}
+
+async function attempt(refund: RefundRequest): Promise<void> {
+  if (refund.status !== "pending" || inFlight.has(refund.id)) return;
+  inFlight.add(refund.id);
+  refund.attempts += 1;
+  try {
+    // The refund ID doubles as the idempotency key, so a retry after a lost
+    // response cannot pay the customer twice
+    const result = await getPaymentProvider().refund(refund.orderId, refund.full ? undefined : refund.amount, refund.id);
+    refund.status = "completed";
+    refund.completedAt = Date.now();
+    refund.nextAttemptAt = null;
+    refund.providerRefundId = result.id;
+    record(refund, "REFUND_COMPLETED", `Refunded after ${refund.attempts} attempt(s)`);
+  } catch (err) {
+    refund.lastError = err instanceof Error ? err.message : String(err);
+    const delay = RETRY_DELAYS_MS[refund.attempts - 1];
+    if (delay === undefined) {
+      refund.status = "failed";
+      refund.nextAttemptAt = null;
+      record(refund, "REFUND_FAILED", refund.lastError);
+      sendNotification({
+        kind: "REFUND_FAILED",
+        machineId: refund.machineId,
+        subject: `Refund of ${refund.amount} for order ${refund.orderId} failed`,
+        text: `Gave up after ${refund.attempts} attempts: ${refund.lastError}. The customer is still owed ${refund.amount}.`,
+        data: { refundId: refund.id, orderId: refund.orderId, sessionId: refund.sessionId, amount: refund.amount },
+        at: Date.now(),
+      });
+    } else {
+      refund.nextAttemptAt = Date.now() + delay;
+      record(refund, "REFUND_ATTEMPT_FAILED", refund.lastError);
+    }
+    console.error("[REFUND_ERROR]", refund.machineId, refund.orderId, err);
+  } finally {
+    inFlight.delete(refund.id);
+    save();
+    schedule(refund);
+  }
+}
+
+export type RefundEntry = {
+  machineId: string;
+  sessionId: string;
+  orderId: string;
+  orderAmount: number;
+  reason: string;
+} & (
+  // Units of the order's items
+  | { full?: false; orderQuantity: number; units: number }
+  // The whole order, e.g. a payment no session was credited any items for
+  | { full: true }
+);
+
+// Queues a refund of a paid order, or units of it, and starts trying right
+// away. A partial amount is the order total times units over the order's
+// quantity.
+export function requestRefund(entry: RefundEntry): RefundRequest {
+  let full = true;
+  let units = 0;
+  let amount = entry.orderAmount;
+  if (!entry.full) {
+    units = entry.units;
+    full = units >= entry.orderQuantity;
+    if (!full) amount = round2((entry.orderAmount * units) / entry.orderQuantity);
+  }
+  const refund: RefundRequest = {
+    id: crypto.randomUUID(),
+    machineId: entry.machineId,
+    sessionId: entry.sessionId,
+    orderId: entry.orderId,
+    amount,
+    units,
+    full,
+    reason: entry.reason,
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: Date.now(),
+    createdAt: Date.now(),
+    completedAt: null,
+    providerRefundId: null,
+  };
+  load().push(refund);
+  save();
+  record(refund, "REFUND_REQUESTED", entry.reason);
+  schedule(refund);
+  return refund;
+}
+
+// Picks pending refunds back up after a restart
+export function resumeRefunds(): void {
+  for (const refund of load()) schedule(refund);
+}
+
+// Tries a refund that gave up again, e.g. once the provider is reachable
+export function retryRefund(refundId: string): { ok: boolean; message?: string } {
+  const refund = load().find((r) => r.id === refundId);
+  if (!refund) return { ok: false, message: "No refund with that id" };
+  if (refund.status !== "failed") return { ok: false, message: `Refund is ${refund.status}` };
+  refund.status = "pending";
+  refund.attempts = 0;
+  refund.nextAttemptAt = Date.now();
+  save();
+  schedule(refund);
+  return { ok: true };
+}
+
+export function listRefunds(filter: { machineId?: string; sessionId?: string; status?: RefundStatus } = {}): RefundRequest[] {
+  return load()
+    .filter(
+      (r) =>
+        (!filter.machineId || r.machineId === filter.machineId) &&
+        (!filter.sessionId || r.sessionId === filter.sessionId) &&
+        (!filter.status || r.status === filter.status)
+    )
+    .map((r) => ({ ...r }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function toRefundView(refund: RefundRequest): RefundView {
+  const { id, orderId, amount, units, reason, status, createdAt, completedAt } = refund;
+  return { id, orderId, amount, units, reason, status, createdAt, completedAt };
+}
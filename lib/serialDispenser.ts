@@ -0,0 +1,170 @@
+import fs from "fs";
+import tty from "tty";
+import {
+  faultFromCode,
+  type DispenseResult,
+  type DispenserDriver,
+  type DispenserStatus,
+  type FaultListener,
+} from "@/lib/dispenser";
+
+// Line protocol spoken with the vend controller over a serial port (or a
+// pseudo-terminal in development). ASCII, one message per line:
+//
+//   host → device   VEND <seq> <slot>          slot is the planogram code, e.g. A1
+//   device → host   OK <seq>                   item dropped
+//                   ERR <seq> <code> [text]    item not dropped (JAM, EMPTY, ...)
+//                   FAULT <code> [text]        unsolicited fault
+//                   READY                      controller (re)booted and idle
+//
+// Line settings (baud rate, parity) are expected to be configured on the
+// device beforehand, e.g. with stty.
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+interface PendingVend {
+  slot: string;
+  resolve: (result: DispenseResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function createSerialDispenser(options: { path: string; timeoutMs?: number }): DispenserDriver {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const listeners = new Set<FaultListener>();
+  const pending = new Map<number, PendingVend>();
+  let input: tty.ReadStream | null = null;
+  let output: tty.WriteStream | null = null;
+  let buffer = "";
+  let seq = 0;
+  let current: DispenserStatus = "OFFLINE";
+
+  function emitFault(code: string, message: string, slot: string | null) {
+    const fault = faultFromCode(code, message, slot);
+    for (const listener of listeners) listener(fault);
+    return fault;
+  }
+
+  function settle(id: number, result: DispenseResult) {
+    const vend = pending.get(id);
+    if (!vend) return;
+    clearTimeout(vend.timer);
+    pending.delete(id);
+    if (pending.size === 0 && current === "BUSY") current = "READY";
+    vend.resolve(result);
+  }
+
+  function close(reason: string) {
+    input?.destroy();
+    output?.destroy();
+    input = null;
+    output = null;
+    current = "OFFLINE";
+    for (const [id, vend] of pending) {
+      settle(id, { ok: false, fault: emitFault("COMM_ERROR", reason, vend.slot) });
+    }
+  }
+
+  function handleLine(line: string) {
+    const [kind, ...rest] = line.trim().split(/\s+/);
+    switch (kind?.toUpperCase()) {
+      case "OK": {
+        settle(Number(rest[0]), { ok: true });
+        break;
+      }
+      case "ERR": {
+        const id = Number(rest[0]);
+        const vend = pending.get(id);
+        const code = rest[1] ?? "UNKNOWN";
+        const fault = emitFault(code, rest.slice(2).join(" ") || code, vend?.slot ?? null);
+        if (fault.code === "JAM") current = "FAULT";
+        settle(id, { ok: false, fault });
+        break;
+      }
+      case "FAULT": {
+        current = "FAULT";
+        const code = rest[0] ?? "UNKNOWN";
+        emitFault(code, rest.slice(1).join(" ") || code, null);
+        break;
+      }
+      case "READY": {
+        if (pending.size === 0) current = "READY";
+        break;
+      }
+      default:
+        if (line.trim()) console.warn("[SERIAL_DISPENSER] Unrecognized line:", line);
+    }
+  }
+
+  function open(): boolean {
+    if (output) return true;
+    try {
+      // Separate descriptors so each stream owns (and closes) its own
+      const readFd = fs.openSync(options.path, fs.constants.O_RDWR | fs.constants.O_NOCTTY);
+      input = new tty.ReadStream(readFd);
+      input.setRawMode(true);
+      output = new tty.WriteStream(fs.openSync(options.path, fs.constants.O_WRONLY | fs.constants.O_NOCTTY));
+    } catch (err) {
+      console.error("[SERIAL_DISPENSER] Cannot open", options.path, err);
+      close("Cannot open serial device");
+      return false;
+    }
+    current = "READY";
+    input.setEncoding("utf8");
+    input.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+        handleLine(line);
+        newline = buffer.search(/\r?\n/);
+      }
+    });
+    input.on("error", (err) => {
+      console.error("[SERIAL_DISPENSER] Read error", err);
+      emitFault("COMM_ERROR", String(err), null);
+      close("Serial read error");
+    });
+    input.on("close", () => close("Serial device closed"));
+    return true;
+  }
+
+  return {
+    async dispense(slot: string): Promise<DispenseResult> {
+      if (!open() || !output) {
+        return { ok: false, fault: faultFromCode("COMM_ERROR", `Cannot open ${options.path}`, slot) };
+      }
+      // A faulted controller takes vends again once it reports READY or an
+      // operator clears the fault, and it vends one item at a time
+      if (current === "FAULT") {
+        return { ok: false, fault: faultFromCode("JAM", "Dispenser is faulted; clear it before vending", slot) };
+      }
+      if (pending.size > 0) {
+        return { ok: false, fault: faultFromCode("UNKNOWN", "Dispenser busy", slot) };
+      }
+      const id = ++seq;
+      current = "BUSY";
+      return new Promise<DispenseResult>((resolve) => {
+        const timer = setTimeout(() => {
+          const fault = emitFault("TIMEOUT", `No response to VEND ${id} for slot ${slot}`, slot);
+          settle(id, { ok: false, fault });
+        }, timeoutMs);
+        pending.set(id, { slot, resolve, timer });
+        output!.write(`VEND ${id} ${slot}\n`);
+      });
+    },
+    status() {
+      return current;
+    },
+    clearFault() {
+      if (current !== "FAULT") return;
+      current = !output ? "OFFLINE" : pending.size > 0 ? "BUSY" : "READY";
+    },
+    onFault(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { queryTransactions, type TransactionRecord, type TransactionType } from "@/lib/transactions";
+
+// One customer session as the ledger tells it
+export type SessionSummary = {
+  machineId: string;
+  sessionId: string;
+  customerName: string | null;
+  startedAt: number;
+  // Null while the session is still running
+  endedAt: number | null;
+  endReason: string | null;
+  paidOrders: number;
+  paidAmount: number;
+  paidUnits: number;
+  dispensedItems: number;
+  faults: number;
+  // Paid items refunded instead of dispensed, and the money involved
+  refundedUnits: number;
+  refundedAmount: number;
+};
+
+export type FailureKind = TransactionType | "PAID_NOT_DISPENSED";
+
+// Something that went wrong with a payment or a dispense
+export type SessionFailure = {
+  kind: FailureKind;
+  at: number;
+  machineId: string;
+  sessionId: string | null;
+  customerName: string | null;
+  orderId: string | null;
+  amount: number | null;
+  slot: string | null;
+  reason: string | null;
+};
+
+const FAILURE_TYPES: readonly TransactionType[] = [
+  "DISPENSE_FAULT",
+  "PAYMENT_EXPIRED",
+  "PAYMENT_CANCELLED",
+  "PAYMENT_ORPHANED",
+  "REFUND_FAILED",
+];
+
+function summarize(machineId: string, sessionId: string, records: TransactionRecord[]): SessionSummary {
+  const summary: SessionSummary = {
+    machineId,
+    sessionId,
+    customerName: null,
+    startedAt: records[0].at,
+    endedAt: null,
+    endReason: null,
+    paidOrders: 0,
+    paidAmount: 0,
+    paidUnits: 0,
+    dispensedItems: 0,
+    faults: 0,
+    refundedUnits: 0,
+    refundedAmount: 0,
+  };
+  for (const r of records) {
+    summary.customerName = r.customerName ?? summary.customerName;
+    if (r.type === "PAYMENT_PAID") {
+      summary.paidOrders += 1;
+      summary.paidAmount += r.amount ?? 0;
+      summary.paidUnits += r.quantity ?? 1;
+    } else if (r.type === "ITEM_DISPENSED") {
+      summary.dispensedItems += 1;
+    } else if (r.type === "DISPENSE_FAULT") {
+      summary.faults += 1;
+    } else if (r.type === "REFUND_REQUESTED") {
+      summary.refundedUnits += r.quantity ?? 0;
+      summary.refundedAmount += r.amount ?? 0;
+    } else if (r.type === "SESSION_ENDED") {
+      summary.endedAt = r.at;
+      summary.endReason = r.reason ?? null;
+    }
+  }
+  return summary;
+}
+
+// Sessions on a machine that were claimed since `from`, newest first. Inventory
+// edits carry no session and are left out.
+export async function listRecentSessions(machineId: string, options: { from?: number; limit?: number } = {}): Promise<SessionSummary[]> {
+  const records = await queryTransactions({ machineId, from: options.from });
+  const bySession = new Map<string, TransactionRecord[]>();
+  for (const r of records) {
+    if (!r.sessionId || r.type === "STATE_CHANGED") continue;
+    const list = bySession.get(r.sessionId) ?? [];
+    list.push(r);
+    bySession.set(r.sessionId, list);
+  }
+  const sessions = [...bySession.entries()]
+    .filter(([, list]) => list.some((r) => r.type === "SESSION_CLAIMED"))
+    .map(([sessionId, list]) => summarize(machineId, sessionId, list))
+    .sort((a, b) => b.startedAt - a.startedAt);
+  return options.limit !== undefined ? sessions.slice(0, options.limit) : sessions;
+}
+
+// Dispense faults, orders that expired or were cancelled, payments no
+// session was credited for, refunds that gave up, and ended sessions paid for
+// more units than they dispensed or refunded, newest first.
+export async function listFailures(machineId: string, options: { from?: number; limit?: number } = {}): Promise<SessionFailure[]> {
+  const records = await queryTransactions({ machineId, from: options.from });
+  const failures: SessionFailure[] = records
+    .filter((r) => FAILURE_TYPES.includes(r.type))
+    .map((r) => ({
+      kind: r.type,
+      at: r.at,
+      machineId,
+      sessionId: r.sessionId,
+      customerName: r.customerName ?? null,
+      orderId: r.orderId ?? null,
+      amount: r.amount ?? null,
+      slot: r.slot ?? null,
+      reason: r.reason ?? null,
+    }));
+
+  for (const session of await listRecentSessions(machineId, { from: options.from })) {
+    const settled = session.dispensedItems + session.refundedUnits;
+    if (session.endedAt === null || settled >= session.paidUnits) continue;
+    failures.push({
+      kind: "PAID_NOT_DISPENSED",
+      at: session.endedAt,
+      machineId,
+      sessionId: session.sessionId,
+      customerName: session.customerName,
+      orderId: null,
+      amount: session.paidAmount,
+      slot: null,
+      reason: `Paid for ${session.paidUnits}, dispensed ${session.dispensedItems}, refunded ${session.refundedUnits}`,
+    });
+  }
+
+  failures.sort((a, b) => b.at - a.at);
+  return options.limit !== undefined ? failures.slice(0, options.limit) : failures;
+}
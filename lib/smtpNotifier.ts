@@ -0,0 +1,90 @@
+import net from "net";
+import type { Notifier } from "@/lib/notifier";
+
+// Minimal SMTP client: one connection per message, no auth, no STARTTLS.
+// Enough for a local relay or a development stand-in (MailHog, smtp4dev);
+// anything internet-facing should sit behind such a relay.
+//
+//   client → server   EHLO, MAIL FROM, RCPT TO (per recipient), DATA, QUIT
+//   server → client   one reply per command; 2xx/3xx continue, else we abort
+
+const DEFAULT_PORT = 25;
+const TIMEOUT_MS = 10_000;
+
+type SmtpOptions = { host: string; port?: number; from: string; to: string[] };
+
+// Lines starting with a dot are doubled so they are not read as end of data
+function dotStuff(text: string): string {
+  return text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+}
+
+function sendMail(options: SmtpOptions, subject: string, body: string): Promise<void> {
+  const message = [
+    `From: ${options.from}`,
+    `To: ${options.to.join(", ")}`,
+    `Subject: ${subject.replace(/[\r\n]+/g, " ")}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    dotStuff(body),
+  ].join("\r\n");
+  const commands = [
+    "EHLO vending",
+    `MAIL FROM:<${options.from}>`,
+    ...options.to.map((to) => `RCPT TO:<${to}>`),
+    "DATA",
+    `${message}\r\n.`,
+    "QUIT",
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(options.port ?? DEFAULT_PORT, options.host);
+    socket.setTimeout(TIMEOUT_MS);
+    let buffer = "";
+    // The greeting comes before any command
+    let next = 0;
+    let done = false;
+
+    function fail(err: Error) {
+      if (done) return;
+      done = true;
+      socket.destroy();
+      reject(err);
+    }
+
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        // Multi-line replies ("250-...") continue until a line with a space
+        if (/^\d{3}-/.test(line)) continue;
+        if (!/^[23]\d\d/.test(line)) return fail(new Error(`SMTP ${options.host}: ${line}`));
+        if (next === commands.length) {
+          done = true;
+          socket.end();
+          return resolve();
+        }
+        socket.write(`${commands[next++]}\r\n`);
+      }
+    });
+    socket.on("timeout", () => fail(new Error(`SMTP ${options.host}: timed out`)));
+    socket.on("error", fail);
+    socket.on("close", () => fail(new Error(`SMTP ${options.host}: connection closed`)));
+  });
+}
+
+export function createSmtpNotifier(options: SmtpOptions): Notifier {
+  return {
+    async notify(notification) {
+      const details = notification.data ? `\n\n${JSON.stringify(notification.data, null, 2)}` : "";
+      await sendMail(options, `[${notification.machineId}] ${notification.subject}`, `${notification.text}${details}`);
+    },
+  };
+}
@@ -0,0 +1,57 @@
+export type VendingStateType = "IDLE" | "CHATTING" | "PAYMENT_PENDING" | "DISPENSING" | "DONE";
+
+export type VendingEvent =
+  | { type: "CLAIM" }
+  | { type: "PAYMENT_STARTED"; orderId: string | null }
+  // The pending order was paid, or closed by the provider without payment
+  | { type: "PAYMENT_SETTLED"; orderId: string | null }
+  | { type: "DISPENSE_STARTED"; slot: string }
+  | { type: "DISPENSE_FINISHED"; slot: string }
+  | { type: "COMPLETE" }
+  | { type: "CANCEL" }
+  | { type: "TIMEOUT" }
+  | { type: "RESET" };
+
+export type VendingEventType = VendingEvent["type"];
+
+// Who or what triggered a transition, recorded in the audit trail
+export type TransitionCause =
+  | "user"
+  | "model_tool"
+  | "webhook"
+  | "poller"
+  | "timeout"
+  | "dispenser"
+  | "operator"
+  | "system";
+
+export interface Transition {
+  from: VendingStateType;
+  to: VendingStateType;
+  event: VendingEvent;
+  cause: TransitionCause;
+}
+
+// Every allowed transition: event -> current state -> next state. Anything
+// not listed here is rejected.
+const TRANSITIONS: { readonly [E in VendingEventType]: Partial<Record<VendingStateType, VendingStateType>> } = {
+  CLAIM: { IDLE: "CHATTING" },
+  PAYMENT_STARTED: { CHATTING: "PAYMENT_PENDING" },
+  PAYMENT_SETTLED: { PAYMENT_PENDING: "CHATTING" },
+  DISPENSE_STARTED: { CHATTING: "DISPENSING" },
+  DISPENSE_FINISHED: { DISPENSING: "CHATTING" },
+  COMPLETE: { CHATTING: "DONE" },
+  CANCEL: { CHATTING: "IDLE", PAYMENT_PENDING: "IDLE", DISPENSING: "IDLE", DONE: "IDLE" },
+  // A dispense that never confirms hands control back to the customer
+  TIMEOUT: { CHATTING: "IDLE", PAYMENT_PENDING: "IDLE", DISPENSING: "CHATTING", DONE: "IDLE" },
+  // Resetting an idle machine just issues a fresh session ID
+  RESET: { IDLE: "IDLE", CHATTING: "IDLE", PAYMENT_PENDING: "IDLE", DISPENSING: "IDLE", DONE: "IDLE" },
+};
+
+export function nextState(from: VendingStateType, event: VendingEventType): VendingStateType | null {
+  return TRANSITIONS[event][from] ?? null;
+}
+
+export function canTransition(from: VendingStateType, event: VendingEventType): boolean {
+  return nextState(from, event) !== null;
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import type { PaymentCredit, VendingSnapshot, WaitlistEntry, WaitlistReservation } from "@/lib/vendingState";
+
+export type InterruptedReason = "PAYMENT_UNCONFIRMED" | "DISPENSE_UNCONFIRMED";
+
+// A session that was in flight when the server went down and whose deadline
+// passed before it came back. The customer may have paid, so we keep a record
+// for an operator to review instead of dropping it.
+export interface InterruptedSession {
+  sessionId: string;
+  lockedByName: string | null;
+  state: VendingSnapshot["state"];
+  reason: InterruptedReason;
+  orderId: string | null;
+  amount: number | null;
+  description: string | null;
+  lastUpdatedAt: number;
+  detectedAt: number;
+}
+
+export interface PersistedVendingState {
+  snapshot: VendingSnapshot;
+  controllerTokenHash: string | null;
+  pausedTimeRemaining: number | null;
+  credits: PaymentCredit[];
+  interruptedSessions: InterruptedSession[];
+  // Absent in files written before the waitlist existed
+  waitlist?: WaitlistEntry[];
+  reservation?: WaitlistReservation | null;
+  savedAt: number;
+}
+
+// Storage backend for the vending state, keyed by machine ID. Calls are
+// synchronous because every state transition in vendingState.ts is; a SQLite
+// store (better-sqlite3) can implement the same interface.
+export interface SnapshotStore {
+  load(machineId: string): PersistedVendingState | null;
+  save(machineId: string, state: PersistedVendingState): void;
+}
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const STATE_DIR = path.resolve(DATA_DIR, "state");
+
+// One JSON file per machine: data/state/<machineId>.json
+export function createJsonFileSnapshotStore(stateDir: string = STATE_DIR): SnapshotStore {
+  const fileFor = (machineId: string) => path.resolve(stateDir, `${encodeURIComponent(machineId)}.json`);
+  return {
+    load(machineId) {
+      const filePath = fileFor(machineId);
+      let raw: string;
+      try {
+        raw = fs.readFileSync(filePath, "utf8");
+      } catch {
+        return null;
+      }
+      try {
+        return JSON.parse(raw) as PersistedVendingState;
+      } catch (err) {
+        console.error("[STATE_STORE_PARSE_ERROR]", filePath, err);
+        return null;
+      }
+    },
+    save(machineId, state) {
+      const filePath = fileFor(machineId);
+      fs.mkdirSync(stateDir, { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2) + "\n", "utf8");
+      fs.renameSync(tmpPath, filePath);
+    },
+  };
+}
+
+export function createMemorySnapshotStore(): SnapshotStore {
+  const states = new Map<string, PersistedVendingState>();
+  return {
+    load(machineId) {
+      const current = states.get(machineId);
+      return current ? structuredClone(current) : null;
+    },
+    save(machineId, state) {
+      states.set(machineId, structuredClone(state));
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { InventorySlot } from "@/lib/inventory";
+import { getMachine } from "@/lib/machines";
+import { getPlanogram } from "@/lib/planogram";
+import { sendNotification } from "@/lib/notifier";
+
+export type StockAlertKind = "LOW_STOCK" | "SOLD_OUT";
+
+// Alerts fire when a slot crosses its low-stock threshold or reaches zero,
+// not on every sale below it, so one coil running down sends at most two.
+export function stockAlertFor(before: number, after: number, lowStock: number): StockAlertKind | null {
+  if (after === 0 && before > 0) return "SOLD_OUT";
+  if (after <= lowStock && before > lowStock) return "LOW_STOCK";
+  return null;
+}
+
+// Checks one slot after its quantity went from before to after and notifies
+// the machine's notifier if it crossed a threshold.
+export function checkStockLevel(machineId: string, slot: string, before: InventorySlot, after: InventorySlot): StockAlertKind | null {
+  const layout = getPlanogram(machineId).get(slot);
+  if (!layout) return null;
+  const kind = stockAlertFor(before.amount, after.amount, layout.lowStock);
+  if (!kind) return null;
+  const machineName = getMachine(machineId)?.name ?? machineId;
+  const product = after.description || after.sku || `slot ${slot}`;
+  sendNotification({
+    kind,
+    machineId,
+    subject: kind === "SOLD_OUT" ? `Slot ${slot} sold out (${product})` : `Slot ${slot} low on stock (${product})`,
+    text:
+      kind === "SOLD_OUT"
+        ? `${machineName}: slot ${slot} (${product}) is empty. Refill up to ${layout.capacity} units.`
+        : `${machineName}: slot ${slot} (${product}) is down to ${after.amount} of ${layout.capacity} units.`,
+    data: {
+      slot,
+      sku: after.sku ?? null,
+      description: after.description,
+      amount: after.amount,
+      lowStock: layout.lowStock,
+      capacity: layout.capacity,
+    },
+    at: Date.now(),
+  });
+  return kind;
+}
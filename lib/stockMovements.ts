@@ -0,0 +1,133 @@
+import { readInventory, setSlot } from "@/lib/inventory";
+import { getPlanogram } from "@/lib/planogram";
+import { queryTransactions, recordTransaction, type TransactionRecord, type TransactionType } from "@/lib/transactions";
+
+// Ledger records that change (or, for counts, check) a slot's quantity. Each
+// carries quantityDelta and the slotAmount after it.
+export const STOCK_MOVEMENT_TYPES: readonly TransactionType[] = [
+  "INVENTORY_SOLD",
+  "INVENTORY_SET",
+  "INVENTORY_RESTOCKED",
+  "INVENTORY_ADJUSTED",
+  "INVENTORY_EXPIRED",
+  "INVENTORY_COUNTED",
+];
+
+// A movement whose starting quantity does not match where the previous one
+// left the slot: something changed the slot without being recorded, e.g. a
+// hand edit of the inventory file or a sale the ledger missed.
+export type HistoryGap = {
+  movementId: string;
+  at: number;
+  expected: number;
+  recorded: number;
+};
+
+export type SlotHistory = {
+  machineId: string;
+  slot: string;
+  at: number;
+  // Quantity the history says the slot held at `at`; null before the first movement
+  quantity: number | null;
+  movements: TransactionRecord[];
+  gaps: HistoryGap[];
+};
+
+function slotMovements(records: TransactionRecord[], slot: string): TransactionRecord[] {
+  return records.filter(
+    (r) => r.slot === slot && STOCK_MOVEMENT_TYPES.includes(r.type) && r.slotAmount !== undefined && r.quantityDelta !== undefined
+  );
+}
+
+export async function queryStockMovements(machineId: string, slot: string, to?: number): Promise<TransactionRecord[]> {
+  return slotMovements(await queryTransactions({ machineId, to }), slot);
+}
+
+// Replays a slot's movements up to `at`. The running quantity follows the
+// deltas; wherever a movement's recorded quantity disagrees, the gap is
+// flagged and the recorded quantity is taken from then on.
+function replaySlot(machineId: string, slot: string, at: number, movements: TransactionRecord[]): SlotHistory {
+  const gaps: HistoryGap[] = [];
+  let quantity: number | null = null;
+  for (const m of movements) {
+    const before = (m.slotAmount as number) - (m.quantityDelta as number);
+    if (quantity !== null && before !== quantity) {
+      gaps.push({ movementId: m.id, at: m.at, expected: quantity, recorded: before });
+    }
+    quantity = m.slotAmount as number;
+  }
+  return { machineId, slot, at, quantity, movements, gaps };
+}
+
+export async function rebuildSlotHistory(machineId: string, slot: string, at: number = Date.now()): Promise<SlotHistory> {
+  return replaySlot(machineId, slot, at, await queryStockMovements(machineId, slot, at));
+}
+
+export type CountResult = {
+  slot: string;
+  counted: number;
+  // From the movement history, or the inventory file for slots without one
+  expected: number;
+  variance: number;
+  // Unrecorded changes found in the history while rebuilding it
+  gaps: HistoryGap[];
+  adjusted: boolean;
+  message?: string;
+};
+
+// Records a physical count of some slots and compares each against the
+// quantity its history says it should hold. With apply, slots that differ are
+// set to the counted quantity.
+export async function recordStockCount(
+  machineId: string,
+  counts: Record<string, number>,
+  options: { apply?: boolean; note?: string } = {}
+): Promise<{ ok: boolean; results?: CountResult[]; message?: string }> {
+  const planogram = getPlanogram(machineId);
+  for (const [slot, counted] of Object.entries(counts)) {
+    const layout = planogram.get(slot);
+    if (!layout) return { ok: false, message: `Invalid slot ${slot}` };
+    if (!Number.isInteger(counted) || counted < 0) return { ok: false, message: `Count for slot ${slot} must be a non-negative integer` };
+    if (counted > layout.capacity) return { ok: false, message: `Slot ${slot} holds at most ${layout.capacity} units` };
+  }
+
+  const at = Date.now();
+  // One read of the ledger serves every slot counted
+  const [inventory, records] = await Promise.all([readInventory(machineId), queryTransactions({ machineId, to: at })]);
+  const results: CountResult[] = [];
+  for (const [slot, counted] of Object.entries(counts)) {
+    const history = replaySlot(machineId, slot, at, slotMovements(records, slot));
+    const current = inventory[slot];
+    const expected = history.quantity ?? current.amount;
+    // The file itself drifting from the history is a gap too
+    const gaps =
+      history.quantity !== null && history.quantity !== current.amount
+        ? [...history.gaps, { movementId: "current", at: Date.now(), expected: history.quantity, recorded: current.amount }]
+        : history.gaps;
+    const variance = counted - expected;
+    recordTransaction({
+      type: "INVENTORY_COUNTED",
+      machineId,
+      sessionId: null,
+      slot,
+      sku: current.sku ?? null,
+      description: current.description,
+      quantityDelta: 0,
+      slotAmount: current.amount,
+      countedAmount: counted,
+      expectedAmount: expected,
+      reason: options.note,
+    });
+
+    const result: CountResult = { slot, counted, expected, variance, gaps, adjusted: false };
+    // Set to the count itself, not by a delta from the read above, which a
+    // sale since then would have made stale
+    if (options.apply && counted !== current.amount) {
+      const adjusted = await setSlot(machineId, slot, { amount: counted }, `Physical count: found ${counted}, expected ${expected}`);
+      result.adjusted = adjusted.ok;
+      if (!adjusted.ok) result.message = adjusted.message;
+    }
+    results.push(result);
+  }
+  return { ok: true, results };
+}
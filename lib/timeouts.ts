@@ -0,0 +1,55 @@
+// Session timers, in milliseconds. Defaults can be overridden globally with
+// env vars and per machine with a `timeouts` block in data/machines.json.
+export interface TimeoutConfig {
+  // Idle chat before the session is released
+  chatMs: number;
+  // Waiting for the customer to pay; also the MercadoPago order expiry
+  paymentMs: number;
+  // Safety net if the dispenser never confirms
+  dispensingMs: number;
+  // How long the "done" screen shows before going back to IDLE
+  doneMs: number;
+  // Exclusive window the next waitlisted customer gets to claim the machine
+  reservationMs: number;
+}
+
+const DEFAULT_TIMEOUTS: TimeoutConfig = {
+  chatMs: 60_000,
+  paymentMs: 60_000,
+  dispensingMs: 30_000,
+  doneMs: 2_000,
+  reservationMs: 30_000,
+};
+
+function envMs(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function pickMs(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function resolveTimeouts(overrides: Partial<TimeoutConfig> = {}): TimeoutConfig {
+  const base: TimeoutConfig = {
+    chatMs: envMs("VENDING_CHAT_TTL_MS") ?? DEFAULT_TIMEOUTS.chatMs,
+    paymentMs: envMs("VENDING_PAYMENT_TTL_MS") ?? DEFAULT_TIMEOUTS.paymentMs,
+    dispensingMs: envMs("VENDING_DISPENSING_TTL_MS") ?? DEFAULT_TIMEOUTS.dispensingMs,
+    doneMs: envMs("VENDING_DONE_TTL_MS") ?? DEFAULT_TIMEOUTS.doneMs,
+    reservationMs: envMs("VENDING_RESERVATION_TTL_MS") ?? DEFAULT_TIMEOUTS.reservationMs,
+  };
+  return {
+    chatMs: pickMs(overrides.chatMs, base.chatMs),
+    paymentMs: pickMs(overrides.paymentMs, base.paymentMs),
+    dispensingMs: pickMs(overrides.dispensingMs, base.dispensingMs),
+    doneMs: pickMs(overrides.doneMs, base.doneMs),
+    reservationMs: pickMs(overrides.reservationMs, base.reservationMs),
+  };
+}
+
+// ISO 8601 duration as expected by MercadoPago's expiration_time, e.g. PT60S
+export function toIsoDuration(ms: number): string {
+  return `PT${Math.max(1, Math.round(ms / 1000))}S`;
+}
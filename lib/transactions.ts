@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { TransitionCause, VendingEventType, VendingStateType } from "@/lib/stateMachine";
+
+export type TransactionType =
+  | "SESSION_CLAIMED"
+  | "PAYMENT_CREATED"
+  | "PAYMENT_PAID"
+  | "PAYMENT_EXPIRED"
+  | "PAYMENT_CANCELLED"
+  | "PAYMENT_ORPHANED"
+  | "ITEM_DISPENSED"
+  | "DISPENSE_FAULT"
+  | "SESSION_ENDED"
+  | "STATE_CHANGED"
+  | "INVENTORY_SET"
+  | "INVENTORY_RESTOCKED"
+  | "INVENTORY_ADJUSTED"
+  | "INVENTORY_EXPIRED"
+  | "INVENTORY_SOLD"
+  | "INVENTORY_COUNTED"
+  | "REFUND_REQUESTED"
+  | "REFUND_ATTEMPT_FAILED"
+  | "REFUND_COMPLETED"
+  | "REFUND_FAILED";
+
+export interface TransactionRecord {
+  id: string;
+  type: TransactionType;
+  at: number;
+  machineId: string;
+  // Null for operator inventory edits, which happen outside any session
+  sessionId: string | null;
+  customerName?: string | null;
+  orderId?: string | null;
+  amount?: number | null;
+  quantity?: number | null;
+  description?: string | null;
+  // Planogram code, e.g. "A1"
+  slot?: string;
+  // Catalog product in the slot, on INVENTORY_* records
+  sku?: string | null;
+  // Unit price charged for a dispensed item
+  price?: number | null;
+  reason?: string;
+  // INVENTORY_* records: units added (or removed, if negative) and the slot's
+  // quantity and average unit cost after the change
+  quantityDelta?: number;
+  unitCost?: number | null;
+  slotAmount?: number;
+  avgUnitPrice?: number | null;
+  // INVENTORY_COUNTED records: units found in the slot and units the
+  // movement history says should have been there
+  countedAmount?: number;
+  expectedAmount?: number | null;
+  // REFUND_* records: the refund the record is about
+  refundId?: string;
+  // STATE_CHANGED records: the transition and what triggered it
+  fromState?: VendingStateType;
+  toState?: VendingStateType;
+  event?: VendingEventType;
+  cause?: TransitionCause;
+}
+
+export type NewTransaction = Omit<TransactionRecord, "id" | "at">;
+
+export interface TransactionFilter {
+  machineId?: string;
+  sessionId?: string;
+  orderId?: string;
+  type?: TransactionType;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const TRANSACTIONS_PATH = process.env.VENDING_TRANSACTIONS_PATH || path.resolve(DATA_DIR, "transactions.jsonl");
+
+// Appends one record to the ledger. The file is append-only; records are never
+// rewritten. Failures are logged rather than thrown so a full disk cannot stop
+// a sale in progress.
+export function recordTransaction(entry: NewTransaction): TransactionRecord {
+  const record: TransactionRecord = { id: crypto.randomUUID(), at: Date.now(), ...entry };
+  try {
+    fs.mkdirSync(path.dirname(TRANSACTIONS_PATH), { recursive: true });
+    fs.appendFileSync(TRANSACTIONS_PATH, JSON.stringify(record) + "\n", "utf8");
+  } catch (err) {
+    console.error("[TRANSACTION_WRITE_ERROR]", err, record);
+  }
+  return record;
+}
+
+export async function queryTransactions(filter: TransactionFilter = {}): Promise<TransactionRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(TRANSACTIONS_PATH, "utf8");
+  } catch {
+    return [];
+  }
+
+  const records: TransactionRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    let record: TransactionRecord;
+    try {
+      record = JSON.parse(line) as TransactionRecord;
+    } catch {
+      // A torn last line from a crash mid-append; skip it
+      continue;
+    }
+    if (filter.machineId && record.machineId !== filter.machineId) continue;
+    if (filter.sessionId && record.sessionId !== filter.sessionId) continue;
+    if (filter.orderId && record.orderId !== filter.orderId) continue;
+    if (filter.type && record.type !== filter.type) continue;
+    if (filter.from !== undefined && record.at < filter.from) continue;
+    if (filter.to !== undefined && record.at > filter.to) continue;
+    records.push(record);
+  }
+
+  // Most recent last, as written; limit keeps the newest
+  return filter.limit !== undefined ? records.slice(-filter.limit) : records;
+}
+
+export function summarizeTransactions(records: TransactionRecord[]): {
+  paidOrders: number;
+  paidAmount: number;
+  dispensedItems: number;
+  dispensedValue: number;
+} {
+  let paidOrders = 0;
+  let paidAmount = 0;
+  let dispensedItems = 0;
+  let dispensedValue = 0;
+  for (const r of records) {
+    if (r.type === "PAYMENT_PAID") {
+      paidOrders += 1;
+      paidAmount += r.amount ?? 0;
+    } else if (r.type === "ITEM_DISPENSED") {
+      dispensedItems += 1;
+      dispensedValue += r.price ?? 0;
+    }
+  }
+  return { paidOrders, paidAmount, dispensedItems, dispensedValue };
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { UIMessage } from "ai";
+
+export type Transcript = {
+  machineId: string;
+  sessionId: string;
+  updatedAt: number;
+  messages: UIMessage[];
+};
+
+const DATA_DIR = path.resolve(process.cwd(), "data");
+const TRANSCRIPTS_DIR = path.resolve(DATA_DIR, "transcripts");
+
+// One JSON file per session: data/transcripts/<machineId>/<sessionId>.json
+function transcriptPath(machineId: string, sessionId: string): string {
+  return path.resolve(TRANSCRIPTS_DIR, encodeURIComponent(machineId), `${encodeURIComponent(sessionId)}.json`);
+}
+
+// The client sends the whole conversation with every message, so each save
+// replaces the file with the latest copy.
+export async function saveTranscript(machineId: string, sessionId: string, messages: UIMessage[]): Promise<void> {
+  const filePath = transcriptPath(machineId, sessionId);
+  const transcript: Transcript = { machineId, sessionId, updatedAt: Date.now(), messages };
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(transcript, null, 2) + "\n", "utf8");
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function readTranscript(machineId: string, sessionId: string): Promise<Transcript | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(transcriptPath(machineId, sessionId), "utf8");
+  } catch {
+    return null;
+  }
+  return JSON.parse(raw) as Transcript;
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const POLL_MS = 1000;
+const MAX_RECONNECT_MS = 30_000;
+
+// Live machine snapshot for the kiosk and claim pages. Listens to the
+// /api/vending/events stream and falls back to polling /api/vending/state
+// while the stream is down.
+export function useVendingSnapshot<T>(machineId: string): T | null {
+  const [snap, setSnap] = useState<T | null>(null);
+
+  useEffect(() => {
+    let stopped = false;
+    let live = false;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = POLL_MS;
+    const query = machineId ? `?machineId=${encodeURIComponent(machineId)}` : "";
+
+    async function poll() {
+      pollTimer = null;
+      try {
+        const res = await fetch(`/api/vending/state${query}`, { cache: "no-store" });
+        if (!res.ok) throw new Error("state fetch failed");
+        const data = (await res.json()) as T;
+        if (!stopped && !live) setSnap(data);
+      } catch {
+        // swallow
+      } finally {
+        if (!stopped && !live) pollTimer = setTimeout(poll, POLL_MS);
+      }
+    }
+
+    function startPolling() {
+      if (!pollTimer && !stopped) void poll();
+    }
+
+    function connect() {
+      reconnectTimer = null;
+      if (stopped) return;
+      source = new EventSource(`/api/vending/events${query}`);
+      source.addEventListener("snapshot", (e) => {
+        live = true;
+        reconnectDelay = POLL_MS;
+        if (pollTimer) clearTimeout(pollTimer);
+        pollTimer = null;
+        setSnap(JSON.parse((e as MessageEvent<string>).data) as T);
+      });
+      source.onerror = () => {
+        live = false;
+        startPolling();
+        // EventSource retries on its own unless the server refused the stream
+        if (source?.readyState === EventSource.CLOSED) {
+          source = null;
+          reconnectTimer = setTimeout(connect, reconnectDelay);
+          reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_MS);
+        }
+      };
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      connect();
+    }
+
+    return () => {
+      stopped = true;
+      source?.close();
+      if (pollTimer) clearTimeout(pollTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [machineId]);
+
+  return snap;
+}
@@ -1,16 +1,54 @@
-export type VendingStateType = "IDLE" | "CHATTING" | "PAYMENT_PENDING" | "DISPENSING" | "DONE";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import {
+  createJsonFileSnapshotStore,
+  createMemorySnapshotStore,
+  type InterruptedSession,
+  type SnapshotStore,
+} from "@/lib/stateStore";
+import { getMachine, listMachines } from "@/lib/machines";
+import { resolveTimeouts, type TimeoutConfig } from "@/lib/timeouts";
+import { recordTransaction, type NewTransaction } from "@/lib/transactions";
+import { getDispenser, type DispenseResult } from "@/lib/dispenser";
+import { getPaymentProvider } from "@/lib/payments";
+import { requestRefund, resumeRefunds } from "@/lib/refunds";
+import { trackOrder, untrackOrder } from "@/lib/paymentPoller";
+import {
+  decrementSlot,
+  releaseReservation,
+  releaseSessionReservations,
+  releaseStaleReservations,
+  readInventory,
+  readReservedSlots,
+} from "@/lib/inventory";
+import {
+  canTransition,
+  nextState,
+  type Transition,
+  type TransitionCause,
+  type VendingEvent,
+  type VendingStateType,
+} from "@/lib/stateMachine";
+
+export type { VendingStateType, VendingEvent, TransitionCause } from "@/lib/stateMachine";
+import { processSingleton } from "@/lib/processSingleton";
 
 export interface PaymentInfo {
   preferenceId: string | null;
   qrCodeUrl: string | null;
   qrCodeDataUrl: string | null;
   amount: number | null;
+  quantity: number | null;
   description: string | null;
+  // Product the order is for and the stock reservation holding its units
+  sku: string | null;
+  reservationId: string | null;
   createdAt: number | null;
   paymentExpiresAt: number | null;
 }
 
 export interface VendingSnapshot {
+  machineId: string;
   state: VendingStateType;
   sessionId: string;
   lockedByName: string | null;
@@ -18,257 +56,1008 @@ export interface VendingSnapshot {
   chatExpiresAt: number | null;
   dispensingExpiresAt: number | null;
   paymentInfo: PaymentInfo;
+  // Full length of each timer, so clients can draw progress against the
+  // configured duration rather than a hard-coded one
+  timeouts: TimeoutConfig;
+  waitlist: WaitlistStatus;
+}
+
+// Customers queued while the machine is busy. Like the controller token, the
+// ticket itself is only handed to the customer; we keep its hash.
+export interface WaitlistEntry {
+  ticketHash: string;
+  name: string;
+  joinedAt: number;
 }
 
-type VendingStore = VendingSnapshot;
+// The head of the line, holding an exclusive window to claim an IDLE machine
+export interface WaitlistReservation extends WaitlistEntry {
+  expiresAt: number;
+}
+
+// Public view of the line, shown on the kiosk
+export interface WaitlistStatus {
+  length: number;
+  reservedFor: string | null;
+  reservationExpiresAt: number | null;
+}
+
+// A confirmed-paid order and the items dispensed against it. dispense() only
+// proceeds while some credit still has items left.
+export interface PaymentCredit {
+  orderId: string;
+  amount: number;
+  quantity: number;
+  description: string | null;
+  sku: string | null;
+  // Units still reserved for this order are committed as they are dispensed
+  reservationId: string | null;
+  paidAt: number;
+  dispensed: { slot: string; at: number }[];
+  // Items given back as money instead, after a fault or when the session ended
+  refunded: number;
+}
+
+// The session ID is public (it is printed in the kiosk QR), so control of a
+// claimed session is tied to a secret token handed to the claimer instead.
+// Only its hash is kept and it never leaves this module.
+type VendingStore = VendingSnapshot & { controllerTokenHash: string | null };
 
 function generateSessionId(): string {
   // Lightweight random id, we also have uuid in deps if desired
   return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
-const CHAT_TTL_MS = 60_000; // 60 seconds to match client progress bar
-const PAYMENT_TTL_MS = 60_000; // 1 minute
-const DISPENSING_TTL_MS = 30_000; // 30 seconds timeout for dispensing
+function generateControllerToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function hashControllerToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
 
-const store: VendingStore = {
-  state: "IDLE",
-  sessionId: generateSessionId(),
-  lockedByName: null,
-  updatedAt: Date.now(),
-  chatExpiresAt: null,
-  dispensingExpiresAt: null,
-  paymentInfo: {
+function checkController(
+  store: VendingStore,
+  sessionId: string,
+  controllerToken: string | null | undefined
+): { ok: boolean; message?: string } {
+  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
+  if (!store.controllerTokenHash || !controllerToken) return { ok: false, message: "Not the session controller" };
+  const expected = Buffer.from(store.controllerTokenHash, "hex");
+  const actual = Buffer.from(hashControllerToken(controllerToken), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) return { ok: false, message: "Not the session controller" };
+  return { ok: true };
+}
+
+function toSnapshot(store: VendingStore): VendingSnapshot {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { controllerTokenHash, ...snapshot } = store;
+  return {
+    ...snapshot,
+    paymentInfo: { ...snapshot.paymentInfo },
+    timeouts: { ...snapshot.timeouts },
+    waitlist: { ...snapshot.waitlist },
+  };
+}
+
+export function getTimeouts(machineId: string): TimeoutConfig {
+  return getMachine(machineId)?.timeouts ?? resolveTimeouts();
+}
+
+function emptyPaymentInfo(): PaymentInfo {
+  return {
     preferenceId: null,
     qrCodeUrl: null,
     qrCodeDataUrl: null,
     amount: null,
+    quantity: null,
     description: null,
+    sku: null,
+    reservationId: null,
     createdAt: null,
     paymentExpiresAt: null,
+  };
+}
+
+function createIdleStore(machineId: string): VendingStore {
+  return {
+    machineId,
+    state: "IDLE",
+    sessionId: generateSessionId(),
+    lockedByName: null,
+    updatedAt: Date.now(),
+    chatExpiresAt: null,
+    dispensingExpiresAt: null,
+    paymentInfo: emptyPaymentInfo(),
+    timeouts: getTimeouts(machineId),
+    waitlist: { length: 0, reservedFor: null, reservationExpiresAt: null },
+    controllerTokenHash: null,
+  };
+}
+
+function createSnapshotStore(): SnapshotStore {
+  if (process.env.VENDING_STATE_STORE === "memory") return createMemorySnapshotStore();
+  return createJsonFileSnapshotStore(process.env.VENDING_STATE_DIR || undefined);
+}
+
+const snapshotStore: SnapshotStore = createSnapshotStore();
+
+// Everything we keep per machine. Runtimes are loaded from the snapshot store
+// the first time a machine is addressed.
+interface MachineRuntime {
+  store: VendingStore;
+  // Simple timer pause/resume for chat operations
+  pausedTimeRemaining: number | null;
+  interruptedSessions: InterruptedSession[];
+  // Paid credit for the current session
+  credits: PaymentCredit[];
+  // Fires expireIfNeeded at the next deadline so timeouts are pushed to
+  // subscribers without anyone polling
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+  // Returns a DONE machine to IDLE once the done screen has been shown
+  doneTimer: ReturnType<typeof setTimeout> | null;
+  waitlist: WaitlistEntry[];
+  reservation: WaitlistReservation | null;
+  // Start of the current session and lengths of recent ones, for wait estimates
+  sessionStartedAt: number | null;
+  sessionDurations: number[];
+  // Held from the start of a dispense until the driver answers, which may be
+  // after the DISPENSING timeout has already moved the session on
+  vending: boolean;
+}
+
+const MAX_WAITLIST_LENGTH = 20;
+const SESSION_DURATION_SAMPLES = 10;
+
+const runtimes = processSingleton("vendingState.runtimes", () => new Map<string, MachineRuntime>());
+
+export type SnapshotListener = (snapshot: VendingSnapshot) => void;
+
+// Snapshot change notifications, one event name per machine ID
+const snapshotEvents = processSingleton("vendingState.snapshotEvents", () => new EventEmitter());
+snapshotEvents.setMaxListeners(0);
+
+function runtime(machineId: string): MachineRuntime {
+  let rt = runtimes.get(machineId);
+  if (rt) return rt;
+  const persisted = snapshotStore.load(machineId);
+  rt = {
+    store: persisted
+      ? {
+          ...createIdleStore(machineId),
+          ...persisted.snapshot,
+          machineId,
+          // Config may have changed since the snapshot was saved
+          timeouts: getTimeouts(machineId),
+          controllerTokenHash: persisted.controllerTokenHash ?? null,
+        }
+      : createIdleStore(machineId),
+    pausedTimeRemaining: persisted?.pausedTimeRemaining ?? null,
+    interruptedSessions: persisted?.interruptedSessions ?? [],
+    // Credits saved before refunds existed have no refunded count
+    credits: (persisted?.credits ?? []).map((c) => ({ ...c, refunded: c.refunded ?? 0 })),
+    expiryTimer: null,
+    doneTimer: null,
+    waitlist: persisted?.waitlist ?? [],
+    reservation: persisted?.reservation ?? null,
+    sessionStartedAt: null,
+    sessionDurations: [],
+    vending: false,
+  };
+  runtimes.set(machineId, rt);
+  if (persisted) recoverPersistedSession(rt);
+  // Reservations of sessions lost in a restart would otherwise hold stock forever
+  releaseStaleReservations(machineId, rt.store.sessionId).catch((err) =>
+    console.error("[INVENTORY_RESERVATION_ERROR]", machineId, err)
+  );
+  scheduleExpiry(rt);
+  watchDispenserFaults(rt);
+  resumeRefunds();
+  // An order still open across the restart is polled again
+  if (rt.store.state === "PAYMENT_PENDING") pollPendingOrder(rt);
+  return rt;
+}
+
+function persist(rt: MachineRuntime): void {
+  try {
+    snapshotStore.save(rt.store.machineId, {
+      snapshot: toSnapshot(rt.store),
+      controllerTokenHash: rt.store.controllerTokenHash,
+      pausedTimeRemaining: rt.pausedTimeRemaining,
+      credits: rt.credits,
+      interruptedSessions: rt.interruptedSessions,
+      waitlist: rt.waitlist,
+      reservation: rt.reservation,
+      savedAt: Date.now(),
+    });
+  } catch (err) {
+    // Keep the machine operable even if the disk is not
+    console.error("[STATE_PERSIST_ERROR]", err);
+  }
+}
+
+function nextDeadline(rt: MachineRuntime): number | null {
+  const { store } = rt;
+  switch (store.state) {
+    case "IDLE":
+      return rt.reservation?.expiresAt ?? null;
+    case "CHATTING":
+      return store.chatExpiresAt;
+    case "PAYMENT_PENDING":
+      return store.paymentInfo.paymentExpiresAt;
+    case "DISPENSING":
+      return store.dispensingExpiresAt;
+    default:
+      return null;
+  }
+}
+
+function scheduleExpiry(rt: MachineRuntime): void {
+  if (rt.expiryTimer) clearTimeout(rt.expiryTimer);
+  rt.expiryTimer = null;
+  const deadline = nextDeadline(rt);
+  if (deadline === null) return;
+  rt.expiryTimer = setTimeout(() => {
+    rt.expiryTimer = null;
+    expireIfNeeded(rt);
+  }, Math.max(0, deadline - Date.now()));
+}
+
+export type SessionEndReason = "CHAT_TIMEOUT" | "PAYMENT_TIMEOUT" | "COMPLETED" | "CANCELLED" | "RESET";
+
+// Writes a ledger record for the machine's current session
+function logTransaction(rt: MachineRuntime, entry: Omit<NewTransaction, "machineId" | "sessionId">): void {
+  recordTransaction({
+    machineId: rt.store.machineId,
+    sessionId: rt.store.sessionId,
+    customerName: rt.store.lockedByName,
+    ...entry,
+  });
+}
+
+function watchDispenserFaults(rt: MachineRuntime): void {
+  getDispenser(rt.store.machineId).onFault((fault) => {
+    console.error("[DISPENSER_FAULT]", rt.store.machineId, fault);
+    logTransaction(rt, {
+      type: "DISPENSE_FAULT",
+      slot: fault.slot ?? undefined,
+      reason: `${fault.code}: ${fault.message}`,
+    });
+  });
+}
+
+// Stock changes run after the state change they belong to; a failure is logged
+// rather than undoing the transition.
+function updateStock(rt: MachineRuntime, change: Promise<unknown>): void {
+  change.catch((err) => console.error("[INVENTORY_RESERVATION_ERROR]", rt.store.machineId, err));
+}
+
+function touch(rt: MachineRuntime): void {
+  rt.store.updatedAt = Date.now();
+  rt.store.waitlist = {
+    length: rt.waitlist.length,
+    reservedFor: rt.reservation?.name ?? null,
+    reservationExpiresAt: rt.reservation?.expiresAt ?? null,
+  };
+  persist(rt);
+  scheduleExpiry(rt);
+  snapshotEvents.emit(rt.store.machineId, toSnapshot(rt.store));
+}
+
+type TransitionHook = (rt: MachineRuntime, transition: Transition) => void;
+
+function sessionEndReason({ from, event }: Transition): SessionEndReason {
+  switch (event.type) {
+    case "CANCEL":
+      return "CANCELLED";
+    case "TIMEOUT":
+      if (from === "DONE") return "COMPLETED";
+      return from === "PAYMENT_PENDING" ? "PAYMENT_TIMEOUT" : "CHAT_TIMEOUT";
+    default:
+      return "RESET";
+  }
+}
+
+// Polls the provider for the order this machine is waiting on, in case its
+// webhook never arrives
+function pollPendingOrder(rt: MachineRuntime): void {
+  const { machineId, sessionId, paymentInfo } = rt.store;
+  if (!paymentInfo.preferenceId || paymentInfo.paymentExpiresAt === null) return;
+  trackOrder({ orderId: paymentInfo.preferenceId, machineId, sessionId, expiresAt: paymentInfo.paymentExpiresAt });
+}
+
+function offerNextReservation(rt: MachineRuntime): void {
+  const next = rt.waitlist.shift();
+  rt.reservation = next ? { ...next, expiresAt: Date.now() + rt.store.timeouts.reservationMs } : null;
+}
+
+// Cleanup owned by the state being left
+const exitHooks: Partial<Record<VendingStateType, TransitionHook>> = {
+  IDLE(rt, { to }) {
+    if (to === "IDLE") return;
+    rt.reservation = null;
+    rt.sessionStartedAt = Date.now();
+  },
+  CHATTING(rt) {
+    rt.store.chatExpiresAt = null;
+    rt.pausedTimeRemaining = null;
+  },
+  PAYMENT_PENDING(rt, { event }) {
+    const { paymentInfo } = rt.store;
+    if (event.type === "TIMEOUT") {
+      logTransaction(rt, { type: "PAYMENT_EXPIRED", orderId: paymentInfo.preferenceId, amount: paymentInfo.amount });
+    } else if (event.type === "CANCEL" || event.type === "RESET") {
+      logTransaction(rt, {
+        type: "PAYMENT_CANCELLED",
+        orderId: paymentInfo.preferenceId,
+        amount: paymentInfo.amount,
+        reason: event.type === "CANCEL" ? "Session cancelled by customer" : "Session reset",
+      });
+    }
+    // A paid order keeps its units until they are dispensed
+    const paid = rt.credits.some((c) => c.orderId === paymentInfo.preferenceId);
+    if (paymentInfo.reservationId && !paid) {
+      updateStock(rt, releaseReservation(rt.store.machineId, paymentInfo.reservationId));
+    }
+    if (paymentInfo.preferenceId) untrackOrder(paymentInfo.preferenceId);
+    // Unpaid orders are closed at the provider so the QR can no longer be paid,
+    // including one settled as rejected, which may still accept a retry
+    if (paymentInfo.preferenceId && !paid) {
+      const orderId = paymentInfo.preferenceId;
+      getPaymentProvider()
+        .cancelOrder(orderId)
+        .catch((err) => console.error("[PAYMENT_CANCEL_ERROR]", rt.store.machineId, orderId, err));
+    }
+    rt.store.paymentInfo = emptyPaymentInfo();
+  },
+  DISPENSING(rt) {
+    rt.store.dispensingExpiresAt = null;
+  },
+  DONE(rt) {
+    if (rt.doneTimer) clearTimeout(rt.doneTimer);
+    rt.doneTimer = null;
   },
 };
 
-function touch(): void {
-  store.updatedAt = Date.now();
+// Setup for the state being entered
+const enterHooks: Partial<Record<VendingStateType, TransitionHook>> = {
+  IDLE(rt, t) {
+    const { store } = rt;
+    if (t.from !== "IDLE") logTransaction(rt, { type: "SESSION_ENDED", reason: sessionEndReason(t) });
+    if (rt.sessionStartedAt !== null) {
+      rt.sessionDurations = [...rt.sessionDurations, Date.now() - rt.sessionStartedAt].slice(-SESSION_DURATION_SAMPLES);
+      rt.sessionStartedAt = null;
+    }
+    refundUnusedCredit(rt, sessionEndReason(t));
+    updateStock(rt, releaseSessionReservations(store.machineId, store.sessionId));
+    rt.credits = [];
+    rt.pausedTimeRemaining = null;
+    store.lockedByName = null;
+    store.sessionId = generateSessionId();
+    store.controllerTokenHash = null;
+    store.chatExpiresAt = null;
+    store.dispensingExpiresAt = null;
+    store.paymentInfo = emptyPaymentInfo();
+    if (!rt.reservation) offerNextReservation(rt);
+  },
+  CHATTING(rt) {
+    rt.store.chatExpiresAt = Date.now() + rt.store.timeouts.chatMs;
+  },
+  PAYMENT_PENDING(rt) {
+    const now = Date.now();
+    rt.store.paymentInfo = {
+      ...rt.store.paymentInfo,
+      createdAt: now,
+      paymentExpiresAt: now + rt.store.timeouts.paymentMs,
+    };
+    pollPendingOrder(rt);
+  },
+  DISPENSING(rt) {
+    rt.store.dispensingExpiresAt = Date.now() + rt.store.timeouts.dispensingMs;
+  },
+  DONE(rt) {
+    rt.doneTimer = setTimeout(() => {
+      rt.doneTimer = null;
+      transition(rt, { type: "TIMEOUT" }, "timeout");
+    }, rt.store.timeouts.doneMs);
+  },
+};
+
+// The only place the machine's state changes. Runs the exit hook of the
+// current state, records the transition in the ledger, then runs the entry
+// hook of the next one.
+function transition(rt: MachineRuntime, event: VendingEvent, cause: TransitionCause): { ok: boolean; message?: string } {
+  const from = rt.store.state;
+  const to = nextState(from, event.type);
+  if (!to) return { ok: false, message: `Cannot handle ${event.type} from ${from}` };
+  const t: Transition = { from, to, event, cause };
+  exitHooks[from]?.(rt, t);
+  logTransaction(rt, {
+    type: "STATE_CHANGED",
+    fromState: from,
+    toState: to,
+    event: event.type,
+    cause,
+    slot: "slot" in event ? event.slot : undefined,
+    orderId: "orderId" in event ? event.orderId : undefined,
+  });
+  rt.store.state = to;
+  enterHooks[to]?.(rt, t);
+  touch(rt);
+  return { ok: true };
 }
 
-function expireIfNeeded(): void {
-  const now = Date.now();
-  
-  // Check chat expiration
-  if (store.state === "CHATTING" && store.chatExpiresAt !== null) {
-    if (now >= store.chatExpiresAt) {
-      resetToIdle();
-      return;
+function expireIfNeeded(rt: MachineRuntime): void {
+  const deadline = nextDeadline(rt);
+  if (deadline === null || Date.now() < deadline) return;
+  if (rt.store.state === "IDLE") {
+    // The reserved customer did not show up; pass the window on
+    offerNextReservation(rt);
+    touch(rt);
+    return;
+  }
+  transition(rt, { type: "TIMEOUT" }, "timeout");
+}
+
+// A dispense names its order through the credit it was taken from, not the
+// (by then cleared) payment info
+function flagInterrupted(
+  rt: MachineRuntime,
+  reason: InterruptedSession["reason"],
+  now: number,
+  credit: PaymentCredit | null = null
+): void {
+  const { store } = rt;
+  const session: InterruptedSession = {
+    sessionId: store.sessionId,
+    lockedByName: store.lockedByName,
+    state: store.state,
+    reason,
+    orderId: credit ? credit.orderId : store.paymentInfo.preferenceId,
+    amount: credit ? credit.amount : store.paymentInfo.amount,
+    description: credit ? credit.description : store.paymentInfo.description,
+    lastUpdatedAt: store.updatedAt,
+    detectedAt: now,
+  };
+  rt.interruptedSessions.push(session);
+  console.warn("[SESSION_INTERRUPTED]", store.machineId, session);
+}
+
+// The item most recently handed to the driver. While the machine is
+// DISPENSING it is the one not yet confirmed.
+function latestDispense(rt: MachineRuntime): { credit: PaymentCredit; entry: PaymentCredit["dispensed"][number] } | null {
+  let latest: { credit: PaymentCredit; entry: PaymentCredit["dispensed"][number] } | null = null;
+  for (const credit of rt.credits) {
+    for (const entry of credit.dispensed) {
+      if (!latest || entry.at >= latest.entry.at) latest = { credit, entry };
     }
   }
-  
-  // Check payment expiration
-  if (store.state === "PAYMENT_PENDING" && store.paymentInfo.paymentExpiresAt !== null) {
-    if (now >= store.paymentInfo.paymentExpiresAt) {
-      resetToIdle();
-      return;
+  return latest;
+}
+
+// Sessions restored from the snapshot store are checked against wall-clock
+// time on boot. A payment whose deadline passed while the server was down,
+// and any dispense at all, is flagged before the session moves on.
+function recoverPersistedSession(rt: MachineRuntime): void {
+  const { store } = rt;
+  const now = Date.now();
+
+  if (
+    store.state === "PAYMENT_PENDING" &&
+    store.paymentInfo.paymentExpiresAt !== null &&
+    now >= store.paymentInfo.paymentExpiresAt
+  ) {
+    flagInterrupted(rt, "PAYMENT_UNCONFIRMED", now);
+  }
+
+  // The driver call died with the old process, so nobody knows whether the
+  // item dropped, whatever the deadline says. Its unit is taken back off the
+  // credit and refunded, and the session is left for an operator to review.
+  if (store.state === "DISPENSING") {
+    const unconfirmed = latestDispense(rt);
+    flagInterrupted(rt, "DISPENSE_UNCONFIRMED", now, unconfirmed?.credit ?? null);
+    if (unconfirmed) {
+      const { credit, entry } = unconfirmed;
+      credit.dispensed = credit.dispensed.filter((d) => d !== entry);
+      refundCredit(store.machineId, store.sessionId, credit, 1, `Dispense in slot ${entry.slot} unconfirmed after a restart`);
+      if (credit.reservationId) updateStock(rt, releaseReservation(store.machineId, credit.reservationId, 1));
     }
+    transition(rt, { type: "DISPENSE_FINISHED", slot: unconfirmed?.entry.slot ?? "" }, "system");
   }
-  
-  // Check dispensing expiration - safety timeout
-  if (store.state === "DISPENSING" && store.dispensingExpiresAt !== null) {
-    if (now >= store.dispensingExpiresAt) {
-      // Auto-return to CHATTING after timeout
-      store.state = "CHATTING";
-      store.dispensingExpiresAt = null;
-      store.chatExpiresAt = Date.now() + CHAT_TTL_MS;
-      touch();
-      return;
+
+  // The done timer did not survive the restart
+  if (store.state === "DONE") {
+    transition(rt, { type: "TIMEOUT" }, "system");
+    return;
+  }
+
+  // A chat paused across the restart would otherwise never expire
+  if (store.state === "CHATTING" && store.chatExpiresAt === null && rt.pausedTimeRemaining !== null) {
+    store.chatExpiresAt = now + rt.pausedTimeRemaining;
+    rt.pausedTimeRemaining = null;
+  }
+
+  expireIfNeeded(rt);
+  persist(rt);
+}
+
+function remainingItems(credit: PaymentCredit): number {
+  return credit.quantity - credit.dispensed.length - credit.refunded;
+}
+
+function refundCredit(machineId: string, sessionId: string, credit: PaymentCredit, units: number, reason: string): void {
+  credit.refunded += units;
+  requestRefund({
+    machineId,
+    sessionId,
+    orderId: credit.orderId,
+    orderAmount: credit.amount,
+    orderQuantity: credit.quantity,
+    units,
+    reason,
+  });
+}
+
+// Paid items the customer leaves without are refunded when the session ends
+function refundUnusedCredit(rt: MachineRuntime, reason: SessionEndReason): void {
+  for (const credit of rt.credits) {
+    const units = remainingItems(credit);
+    if (units > 0) {
+      refundCredit(rt.store.machineId, rt.store.sessionId, credit, units, `Session ended (${reason}) before ${units} paid item(s) were dispensed`);
     }
   }
 }
 
-export function getSnapshot(): VendingSnapshot {
-  expireIfNeeded();
-  return { ...store };
+function matchesTicket(entry: WaitlistEntry, ticket: string | null | undefined): boolean {
+  if (!ticket) return false;
+  const expected = Buffer.from(entry.ticketHash, "hex");
+  const actual = Buffer.from(hashControllerToken(ticket), "hex");
+  return crypto.timingSafeEqual(expected, actual);
 }
 
-export function ensureIdleSession(): string {
+function averageSessionMs(rt: MachineRuntime): number {
+  const samples = rt.sessionDurations;
+  if (samples.length === 0) return rt.store.timeouts.chatMs + rt.store.timeouts.paymentMs;
+  return samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+}
+
+// Rough wait for the customer at 1-based position in line: what is left of
+// the current session (or reservation) plus an average session per person ahead.
+function estimateWaitMs(rt: MachineRuntime, position: number): number {
+  const now = Date.now();
+  const average = averageSessionMs(rt);
+  let current: number;
+  if (rt.store.state !== "IDLE") {
+    current = Math.max(0, average - (now - (rt.sessionStartedAt ?? now)));
+  } else {
+    current = rt.reservation ? Math.max(0, rt.reservation.expiresAt - now) + average : 0;
+  }
+  return Math.round(current + (position - 1) * average);
+}
+
+export type WaitlistPosition = {
+  ok: boolean;
+  // 0 once the customer holds the reservation
+  position?: number;
+  estimatedWaitMs?: number;
+  reserved?: boolean;
+  reservationExpiresAt?: number | null;
+  // Session to claim while reserved
+  sessionId?: string;
+  message?: string;
+};
+
+function waitlistPosition(rt: MachineRuntime, ticketHash: string): WaitlistPosition {
+  if (rt.reservation?.ticketHash === ticketHash) {
+    return {
+      ok: true,
+      position: 0,
+      estimatedWaitMs: 0,
+      reserved: true,
+      reservationExpiresAt: rt.reservation.expiresAt,
+      sessionId: rt.store.sessionId,
+    };
+  }
+  const index = rt.waitlist.findIndex((e) => e.ticketHash === ticketHash);
+  if (index === -1) return { ok: false, message: "Not in line" };
+  return { ok: true, position: index + 1, estimatedWaitMs: estimateWaitMs(rt, index + 1), reserved: false };
+}
+
+// Queues a customer who scanned while the machine was busy. Returns the
+// ticket they must keep to check their place and claim when their turn comes.
+export function joinWaitlist(machineId: string, name: string): WaitlistPosition & { ticket?: string } {
+  const rt = runtime(machineId);
+  expireIfNeeded(rt);
+  if (rt.store.state === "IDLE" && !rt.reservation) {
+    return { ok: false, message: "Machine is free. Scan the QR on the display to start." };
+  }
+  if (rt.waitlist.length >= MAX_WAITLIST_LENGTH) {
+    return { ok: false, message: "The line is full. Please try again later." };
+  }
+  const ticket = generateControllerToken();
+  const ticketHash = hashControllerToken(ticket);
+  rt.waitlist.push({ ticketHash, name, joinedAt: Date.now() });
+  touch(rt);
+  return { ...waitlistPosition(rt, ticketHash), ticket };
+}
+
+export function getWaitlistPosition(machineId: string, ticket: string): WaitlistPosition {
+  const rt = runtime(machineId);
+  expireIfNeeded(rt);
+  return waitlistPosition(rt, hashControllerToken(ticket));
+}
+
+// Removes the ticket from the line, giving up a held reservation as well
+export function leaveWaitlist(machineId: string, ticket: string): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const ticketHash = hashControllerToken(ticket);
+  if (rt.reservation?.ticketHash === ticketHash) {
+    offerNextReservation(rt);
+  } else {
+    const index = rt.waitlist.findIndex((e) => e.ticketHash === ticketHash);
+    if (index === -1) return { ok: false, message: "Not in line" };
+    rt.waitlist.splice(index, 1);
+  }
+  touch(rt);
+  return { ok: true };
+}
+
+export function getSnapshot(machineId: string): VendingSnapshot {
+  const rt = runtime(machineId);
+  expireIfNeeded(rt);
+  return toSnapshot(rt.store);
+}
+
+// Calls listener with every state change of the machine. Returns the unsubscribe function.
+export function subscribe(machineId: string, listener: SnapshotListener): () => void {
+  runtime(machineId);
+  snapshotEvents.on(machineId, listener);
+  return () => {
+    snapshotEvents.off(machineId, listener);
+  };
+}
+
+export function ensureIdleSession(machineId: string): string {
+  const { store } = runtime(machineId);
   if (store.state !== "IDLE" || !store.sessionId) return store.sessionId;
   return store.sessionId;
 }
 
-export function regenerateSessionIfIdle(): string {
+export function regenerateSessionIfIdle(machineId: string): string {
+  const rt = runtime(machineId);
+  const { store } = rt;
   if (store.state === "IDLE") {
     store.sessionId = generateSessionId();
-    touch();
+    touch(rt);
   }
   return store.sessionId;
 }
 
-export function claim(sessionId: string, userName: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
+// Claims the machine for userName. On success returns the controller token that
+// every later call for this session must present. While the next customer in
+// line holds a reservation only their waitlist ticket can claim.
+export function claim(
+  machineId: string,
+  sessionId: string,
+  userName: string,
+  waitlistTicket?: string | null
+): { ok: boolean; controllerToken?: string; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  expireIfNeeded(rt);
   if (store.state !== "IDLE") {
     return { ok: false, message: `Machine is busy in state ${store.state}` };
   }
   if (sessionId !== store.sessionId) {
     return { ok: false, message: "Invalid or expired QR. Please rescan." };
   }
-  store.state = "CHATTING";
+  if (rt.reservation && !matchesTicket(rt.reservation, waitlistTicket)) {
+    return { ok: false, message: `Machine is reserved for ${rt.reservation.name}. Join the line to be next.` };
+  }
+  const controllerToken = generateControllerToken();
   store.lockedByName = userName;
-  store.chatExpiresAt = Date.now() + CHAT_TTL_MS;
-  touch();
-  return { ok: true };
+  store.controllerTokenHash = hashControllerToken(controllerToken);
+  transition(rt, { type: "CLAIM" }, "user");
+  logTransaction(rt, { type: "SESSION_CLAIMED" });
+  return { ok: true, controllerToken };
 }
 
-export function cancel(sessionId: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
+export function cancel(machineId: string, sessionId: string, controllerToken: string | null): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  expireIfNeeded(rt);
   if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
   if (store.state === "IDLE") return { ok: true };
-  store.state = "IDLE";
-  store.lockedByName = null;
-  store.sessionId = generateSessionId();
-  store.chatExpiresAt = null;
-  touch();
-  return { ok: true };
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
+  return transition(rt, { type: "CANCEL" }, "user");
 }
 
-export function dispense(sessionId: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  if (store.state !== "CHATTING") return { ok: false, message: `Cannot dispense from ${store.state}` };
-  store.state = "DISPENSING";
-  store.dispensingExpiresAt = Date.now() + DISPENSING_TTL_MS;
-  // Placeholder for physical dispense
-  console.log("[PLACEHOLDER] Dispensing item for", store.lockedByName);
-  touch();
+// Dispenses one item of the product in requestedSlot, consuming one unit of
+// paid credit for that product. Refuses without such credit regardless of
+// what the caller claims was paid. The unit comes from the slot the order's
+// reservation holds, when it still holds one. Refused while the dispenser is
+// faulted or still busy with an earlier item. Resolves once the dispenser
+// driver confirms the drop or reports a fault; a fault refunds the item.
+// Either way the session returns to CHATTING.
+export async function dispense(
+  machineId: string,
+  sessionId: string,
+  controllerToken: string | null,
+  requestedSlot: string,
+  cause: TransitionCause = "user"
+): Promise<{ ok: boolean; message?: string }> {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  // Read before the checks below, so nothing can change between them and the transition
+  const [inventory, reservedSlots] = await Promise.all([readInventory(machineId), readReservedSlots(machineId)]);
+  expireIfNeeded(rt);
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
+  if (!canTransition(store.state, "DISPENSE_STARTED")) return { ok: false, message: `Cannot dispense from ${store.state}` };
+  if (!rt.credits.some((c) => remainingItems(c) > 0)) {
+    return { ok: false, message: "No paid credit left for this session. Collect payment first." };
+  }
+  // Only an order for the product in the slot pays for it
+  const sku = inventory[requestedSlot]?.sku ?? null;
+  const credit = sku ? rt.credits.find((c) => remainingItems(c) > 0 && c.sku === sku) : undefined;
+  if (!credit) {
+    return { ok: false, message: `No paid credit for ${sku ?? `slot ${requestedSlot}`}. Dispense the product that was paid for.` };
+  }
+  if (rt.vending) return { ok: false, message: "The dispenser is still busy with the previous item" };
+  const dispenser = getDispenser(machineId);
+  // A jammed machine stays faulted until an operator clears it from the admin dashboard
+  if (dispenser.status() === "FAULT") {
+    return { ok: false, message: "The dispenser is out of order. The paid credit is kept; ask an operator for help." };
+  }
+  // Vend the unit held for the order; the requested slot only names the product
+  const slot = (credit.reservationId && reservedSlots.get(credit.reservationId)) || requestedSlot;
+  const entry = { slot, at: Date.now() };
+  credit.dispensed.push(entry);
+  rt.vending = true;
+  transition(rt, { type: "DISPENSE_STARTED", slot }, cause);
+
+  let result: DispenseResult;
+  try {
+    result = await dispenser.dispense(slot);
+  } finally {
+    rt.vending = false;
+  }
+
+  if (result.ok) {
+    logTransaction(rt, {
+      type: "ITEM_DISPENSED",
+      orderId: credit.orderId,
+      slot,
+      price: credit.amount / credit.quantity,
+      description: credit.description,
+    });
+    try {
+      await decrementSlot(machineId, slot, { sessionId, orderId: credit.orderId, reservationId: credit.reservationId });
+    } catch (err) {
+      // The item is out; the count is fixed on the next stock take
+      console.error("[INVENTORY_DECREMENT_ERROR]", machineId, slot, err);
+    }
+  } else {
+    credit.dispensed = credit.dispensed.filter((d) => d !== entry);
+    refundCredit(machineId, sessionId, credit, 1, `Dispense fault in slot ${slot} (${result.fault.code}): ${result.fault.message}`);
+    // The unit may be stuck in the coil; stop holding it for this order
+    if (credit.reservationId) updateStock(rt, releaseReservation(machineId, credit.reservationId, 1));
+    if (store.sessionId === sessionId) persist(rt);
+  }
+  // The session may have timed out or been reset while the driver was busy
+  if (store.sessionId === sessionId && store.state === "DISPENSING") {
+    transition(rt, { type: "DISPENSE_FINISHED", slot }, "dispenser");
+  }
+  if (!result.ok) {
+    const price = Math.round((credit.amount / credit.quantity) * 100) / 100;
+    return { ok: false, message: `Dispense failed (${result.fault.code}): ${result.fault.message}. The ${price} paid for it is being refunded.` };
+  }
   return { ok: true };
 }
 
-export function completeTransaction(sessionId: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  if (store.state !== "CHATTING" && store.state !== "DONE") {
+export function completeTransaction(
+  machineId: string,
+  sessionId: string,
+  controllerToken: string | null,
+  cause: TransitionCause = "user"
+): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  expireIfNeeded(rt);
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
+  // Already completing; the done timer returns the machine to IDLE
+  if (store.state === "DONE") return { ok: true };
+  if (!canTransition(store.state, "COMPLETE")) {
     return { ok: false, message: `Cannot complete transaction from ${store.state}` };
   }
-  store.state = "DONE";
-  touch();
-  // Auto-transition to IDLE after 2 seconds
-  setTimeout(() => {
-    resetToIdle();
-  }, 2000);
-  return { ok: true };
+  return transition(rt, { type: "COMPLETE" }, cause);
 }
 
-export function markDone(sessionId: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  if (store.state !== "DISPENSING") return { ok: false, message: `Cannot mark done from ${store.state}` };
-  store.state = "CHATTING";
-  store.dispensingExpiresAt = null;
-  store.chatExpiresAt = Date.now() + CHAT_TTL_MS;
-  touch();
-  return { ok: true };
+// For routes that must authorize a caller before doing external work
+// (e.g. creating a payment order) ahead of the state change itself.
+export function verifyController(
+  machineId: string,
+  sessionId: string,
+  controllerToken: string | null
+): { ok: boolean; message?: string } {
+  return checkController(runtime(machineId).store, sessionId, controllerToken);
 }
 
-export function resetToIdle(): void {
-  store.state = "IDLE";
-  store.lockedByName = null;
-  store.sessionId = generateSessionId();
-  store.chatExpiresAt = null;
-  store.dispensingExpiresAt = null;
-  store.paymentInfo = {
-    preferenceId: null,
-    qrCodeUrl: null,
-    qrCodeDataUrl: null,
-    amount: null,
-    description: null,
-    createdAt: null,
-    paymentExpiresAt: null,
-  };
-  touch();
+export function resetToIdle(machineId: string, cause: TransitionCause = "operator"): void {
+  transition(runtime(machineId), { type: "RESET" }, cause);
 }
 
-export function canSendChat(sessionId: string): { ok: boolean; message?: string } {
-  expireIfNeeded();
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
+export function canSendChat(machineId: string, sessionId: string, controllerToken: string | null): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  expireIfNeeded(rt);
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
   if (store.state !== "CHATTING") return { ok: false, message: `Cannot chat from ${store.state}` };
   return { ok: true };
 }
 
-// Simple timer pause/resume for chat operations
-let pausedTimeRemaining: number | null = null;
-
-export function pauseChatTimer(sessionId: string): { ok: boolean; message?: string } {
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
+export function pauseChatTimer(machineId: string, sessionId: string, controllerToken: string | null): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
   if (store.state !== "CHATTING") return { ok: false, message: `Cannot pause timer from ${store.state}` };
   if (store.chatExpiresAt !== null) {
-    pausedTimeRemaining = Math.max(0, store.chatExpiresAt - Date.now());
+    rt.pausedTimeRemaining = Math.max(0, store.chatExpiresAt - Date.now());
     store.chatExpiresAt = null; // Pause by setting to null
+    touch(rt);
   }
   return { ok: true };
 }
 
-export function resumeChatTimer(sessionId: string): { ok: boolean; message?: string } {
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
+export function resumeChatTimer(machineId: string, sessionId: string, controllerToken: string | null): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
   if (store.state !== "CHATTING") return { ok: false, message: `Cannot resume timer from ${store.state}` };
-  if (pausedTimeRemaining !== null) {
-    store.chatExpiresAt = Date.now() + pausedTimeRemaining;
-    pausedTimeRemaining = null;
+  if (rt.pausedTimeRemaining !== null) {
+    store.chatExpiresAt = Date.now() + rt.pausedTimeRemaining;
+    rt.pausedTimeRemaining = null;
+    touch(rt);
   }
   return { ok: true };
 }
 
-export function setPaymentInfo(sessionId: string, paymentInfo: PaymentInfo): { ok: boolean; message?: string } {
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  if (store.state !== "CHATTING") return { ok: false, message: `Cannot set payment info from ${store.state}` };
-  
-  store.paymentInfo = { 
-    ...paymentInfo, 
-    createdAt: Date.now(),
-    paymentExpiresAt: Date.now() + PAYMENT_TTL_MS
-  };
-  store.state = "PAYMENT_PENDING";
-  touch();
+export function setPaymentInfo(
+  machineId: string,
+  sessionId: string,
+  controllerToken: string | null,
+  paymentInfo: PaymentInfo,
+  cause: TransitionCause = "user"
+): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
+  if (!canTransition(store.state, "PAYMENT_STARTED")) {
+    return { ok: false, message: `Cannot set payment info from ${store.state}` };
+  }
+
+  // Creation time and expiry are stamped on entering PAYMENT_PENDING
+  store.paymentInfo = { ...paymentInfo };
+  transition(rt, { type: "PAYMENT_STARTED", orderId: paymentInfo.preferenceId }, cause);
+  logTransaction(rt, {
+    type: "PAYMENT_CREATED",
+    orderId: store.paymentInfo.preferenceId,
+    amount: store.paymentInfo.amount,
+    quantity: store.paymentInfo.quantity,
+    description: store.paymentInfo.description,
+  });
   return { ok: true };
 }
 
-export function clearPaymentInfo(sessionId: string): { ok: boolean; message?: string } {
+// Called by the webhook and the poller once orderId is confirmed paid. Adds
+// credit for the order's quantity; repeated confirmations are ignored.
+export function recordPaymentCredit(machineId: string, sessionId: string, orderId: string): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
   if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  
-  store.paymentInfo = {
-    preferenceId: null,
-    qrCodeUrl: null,
-    qrCodeDataUrl: null,
-    amount: null,
-    description: null,
-    createdAt: null,
-    paymentExpiresAt: null,
-  };
-  touch();
+  if (rt.credits.some((c) => c.orderId === orderId)) return { ok: true };
+  if (store.paymentInfo.preferenceId !== orderId || store.paymentInfo.amount === null) {
+    return { ok: false, message: "Order does not match the pending payment" };
+  }
+  rt.credits.push({
+    orderId,
+    amount: store.paymentInfo.amount,
+    quantity: store.paymentInfo.quantity ?? 1,
+    description: store.paymentInfo.description,
+    sku: store.paymentInfo.sku,
+    reservationId: store.paymentInfo.reservationId,
+    paidAt: Date.now(),
+    dispensed: [],
+    refunded: 0,
+  });
+  touch(rt);
+  logTransaction(rt, {
+    type: "PAYMENT_PAID",
+    orderId,
+    amount: store.paymentInfo.amount,
+    quantity: store.paymentInfo.quantity ?? 1,
+    description: store.paymentInfo.description,
+  });
   return { ok: true };
 }
 
-export function getPaymentInfo(sessionId: string): { ok: boolean; paymentInfo?: PaymentInfo; message?: string } {
+export function getPaymentCredits(machineId: string, sessionId: string): { ok: boolean; credits?: PaymentCredit[]; message?: string } {
+  const rt = runtime(machineId);
+  if (sessionId !== rt.store.sessionId) return { ok: false, message: "Wrong session" };
+  return { ok: true, credits: rt.credits.map((c) => ({ ...c, dispensed: [...c.dispensed] })) };
+}
+
+// Records that the provider reported orderId as cancelled or expired.
+export function recordPaymentClosed(
+  machineId: string,
+  sessionId: string,
+  orderId: string,
+  status: "cancelled" | "expired" | "rejected"
+): void {
+  const rt = runtime(machineId);
+  if (sessionId !== rt.store.sessionId) return;
+  logTransaction(rt, {
+    type: status === "expired" ? "PAYMENT_EXPIRED" : "PAYMENT_CANCELLED",
+    orderId,
+    amount: rt.store.paymentInfo.preferenceId === orderId ? rt.store.paymentInfo.amount : null,
+    reason: `Provider reported ${status}`,
+  });
+}
+
+export function getPaymentInfo(machineId: string, sessionId: string): { ok: boolean; paymentInfo?: PaymentInfo; message?: string } {
+  const { store } = runtime(machineId);
   if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
   return { ok: true, paymentInfo: store.paymentInfo };
 }
 
-export function transitionToChatting(sessionId: string): { ok: boolean; message?: string } {
+// Leaves PAYMENT_PENDING once the provider has settled the order either way.
+// The payment info is cleared and the chat timer starts afresh.
+export function transitionToChatting(
+  machineId: string,
+  sessionId: string,
+  cause: TransitionCause
+): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const { store } = rt;
   if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
-  if (store.state !== "PAYMENT_PENDING") return { ok: false, message: `Cannot transition from ${store.state} to CHATTING` };
-  
-  store.state = "CHATTING";
-  // Start fresh chat timer from 0
-  store.chatExpiresAt = Date.now() + CHAT_TTL_MS;
-  touch();
-  return { ok: true };
+  if (!canTransition(store.state, "PAYMENT_SETTLED")) {
+    return { ok: false, message: `Cannot transition from ${store.state} to CHATTING` };
+  }
+  return transition(rt, { type: "PAYMENT_SETTLED", orderId: store.paymentInfo.preferenceId }, cause);
 }
 
-export function resumeChatTimerAfterPayment(sessionId: string): { ok: boolean; message?: string } {
-  if (sessionId !== store.sessionId) return { ok: false, message: "Wrong session" };
+export function resumeChatTimerAfterPayment(machineId: string, sessionId: string, controllerToken: string | null): { ok: boolean; message?: string } {
+  const { store } = runtime(machineId);
+  const auth = checkController(store, sessionId, controllerToken);
+  if (!auth.ok) return auth;
   if (store.state !== "CHATTING") return { ok: false, message: `Cannot resume timer from ${store.state}` };
   
   // Resume the chat timer with remaining time
-  resumeChatTimer(sessionId);
+  resumeChatTimer(machineId, sessionId, controllerToken);
   return { ok: true };
 }
 
+// Loads every machine from its saved state when the server starts, so its
+// timers, refunds and open payment orders resume without waiting for a request
+export function resumeMachines(): void {
+  for (const { id } of listMachines()) runtime(id);
+}
+
+export function getInterruptedSessions(machineId: string): InterruptedSession[] {
+  return [...runtime(machineId).interruptedSessions];
+}
 
+export function dismissInterruptedSession(machineId: string, sessionId: string): { ok: boolean; message?: string } {
+  const rt = runtime(machineId);
+  const index = rt.interruptedSessions.findIndex((s) => s.sessionId === sessionId);
+  if (index === -1) return { ok: false, message: "No interrupted session with that id" };
+  rt.interruptedSessions.splice(index, 1);
+  persist(rt);
+  return { ok: true };
+}